@@ -0,0 +1,118 @@
+// Service worker: keeps the app shell available offline and serves voice
+// messages downloaded for offline listening (see src/lib/offlineAudio.ts).
+
+const SHELL_CACHE = 'voicelink-shell-v1';
+// Must match OFFLINE_AUDIO_CACHE in src/lib/offlineAudio.ts
+const OFFLINE_AUDIO_CACHE = 'voicelink-offline-audio';
+const OFFLINE_AUDIO_PREFIX = '/offline-audio/';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.add('/'))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('voicelink-shell-') && key !== SHELL_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith(OFFLINE_AUDIO_PREFIX)) {
+    event.respondWith(serveOfflineAudio(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(serveNavigation(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(serveAsset(request));
+  }
+});
+
+// Always the latest app when online; the last one seen when not. Every route
+// is served by the same index.html.
+async function serveNavigation(request) {
+  const cache = await caches.open(SHELL_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Built assets have hashed names, so a cached copy never goes stale
+async function serveAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// The <audio> element asks for byte ranges to seek, so answer them from the
+// cached file
+async function serveOfflineAudio(request) {
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  const cached = await cache.match(request.url);
+
+  if (!cached) {
+    return new Response('Not available offline', { status: 404 });
+  }
+
+  const range = request.headers.get('Range');
+  const match = range && /^bytes=(\d*)-(\d*)$/.exec(range);
+  if (!match) return cached;
+
+  const blob = await cached.blob();
+  const size = blob.size;
+  let start = match[1] ? Number(match[1]) : NaN;
+  let end = match[2] ? Number(match[2]) : size - 1;
+
+  if (Number.isNaN(start) && match[2]) {
+    // A suffix range: the last `end` bytes
+    start = Math.max(0, size - end);
+    end = size - 1;
+  }
+  end = Math.min(end, size - 1);
+
+  // `bytes=-` names no bytes at all
+  if (Number.isNaN(start) || start > end || start >= size) {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${size}` },
+    });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') || 'application/octet-stream',
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
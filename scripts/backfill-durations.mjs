@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * Re-measures the duration of every stored voice message and corrects
+ * `audio_messages.duration` where it is off. Older rows were saved with the
+ * recorder's whole-second timer rather than the real length of the audio.
+ *
+ * Requires `ffprobe` (part of ffmpeg) on the PATH and a service role key, since
+ * it reads every conversation's files:
+ *
+ *   SUPABASE_URL=http://127.0.0.1:54321 \
+ *   SUPABASE_SERVICE_ROLE_KEY=... \
+ *   npm run backfill:durations -- [--dry-run]
+ */
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+
+const PAGE_SIZE = 100;
+// Differences smaller than this are rounding, not a wrong duration
+const TOLERANCE_SEC = 0.05;
+
+const execFileAsync = promisify(execFile);
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const dryRun = process.argv.includes('--dry-run');
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+// Packet lists of long recordings are several MB of text
+const MAX_PROBE_OUTPUT = 64 * 1024 * 1024;
+
+async function probe(args) {
+  const { stdout } = await execFileAsync('ffprobe', ['-v', 'error', ...args], { maxBuffer: MAX_PROBE_OUTPUT });
+  return stdout.trim();
+}
+
+async function headerDuration(filePath) {
+  return parseFloat(await probe([
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    filePath,
+  ]));
+}
+
+// WebM from MediaRecorder usually has no duration in its header ("N/A"), so
+// fall back to where the last audio packet ends
+async function lastPacketEnd(filePath) {
+  const lines = (await probe([
+    '-select_streams', 'a:0',
+    '-show_entries', 'packet=pts_time,duration_time',
+    '-of', 'csv=p=0',
+    filePath,
+  ])).split('\n');
+
+  let end = NaN;
+  for (const line of lines) {
+    const [pts, duration] = line.split(',').map(value => parseFloat(value));
+    if (!Number.isFinite(pts)) continue;
+
+    const packetEnd = pts + (Number.isFinite(duration) ? duration : 0);
+    end = Number.isFinite(end) ? Math.max(end, packetEnd) : packetEnd;
+  }
+  return end;
+}
+
+async function measureDuration(filePath) {
+  let duration = await headerDuration(filePath);
+
+  if (!Number.isFinite(duration)) {
+    duration = await lastPacketEnd(filePath);
+  }
+
+  if (!Number.isFinite(duration)) {
+    throw new Error(`ffprobe returned no duration for ${filePath}`);
+  }
+
+  return Math.round(duration * 1000) / 1000;
+}
+
+async function fetchAudio(audioUrl) {
+  // Older rows may carry the bucket name as a prefix
+  const path = audioUrl.startsWith('voices/') ? audioUrl.substring(7) : audioUrl;
+  const { data, error } = await supabase.storage.from('voices').download(path);
+
+  if (error) throw error;
+  return Buffer.from(await data.arrayBuffer());
+}
+
+async function main() {
+  const workDir = await mkdtemp(join(tmpdir(), 'voice-durations-'));
+  const stats = { checked: 0, corrected: 0, failed: 0 };
+
+  try {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: messages, error } = await supabase
+        .from('audio_messages')
+        .select('id, audio_url, duration')
+        .not('audio_url', 'is', null)
+        .order('created_at')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      if (!messages || messages.length === 0) break;
+
+      for (const message of messages) {
+        stats.checked++;
+
+        try {
+          const filePath = join(workDir, message.id);
+          await writeFile(filePath, await fetchAudio(message.audio_url));
+          const measured = await measureDuration(filePath);
+          await rm(filePath, { force: true });
+
+          if (Math.abs(measured - Number(message.duration)) < TOLERANCE_SEC) continue;
+
+          console.log(`${message.id}: ${message.duration}s -> ${measured}s`);
+          stats.corrected++;
+
+          if (dryRun) continue;
+
+          const { error: updateError } = await supabase
+            .from('audio_messages')
+            .update({ duration: measured })
+            .eq('id', message.id);
+
+          if (updateError) throw updateError;
+        } catch (error) {
+          stats.failed++;
+          console.error(`Error checking message ${message.id}:`, error.message ?? error);
+        }
+      }
+
+      if (messages.length < PAGE_SIZE) break;
+    }
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+
+  const verb = dryRun ? 'would be corrected' : 'corrected';
+  console.log(`Checked ${stats.checked} messages: ${stats.corrected} ${verb}, ${stats.failed} failed`);
+}
+
+main().catch(error => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
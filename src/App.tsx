@@ -7,10 +7,18 @@ import Login from './pages/auth/Login';
 import Register from './pages/auth/Register';
 import Dashboard from './pages/app/Dashboard';
 import Messages from './pages/app/Messages';
+import Conversations from './pages/app/Conversations';
+import Conversation from './pages/app/Conversation';
 import Profile from './pages/app/Profile';
 import Contacts from './pages/app/Contacts';
+import Bookmarks from './pages/app/Bookmarks';
 import Loading from './components/ui/Loading';
 import { useAuthStore } from './stores/authStore';
+import { useOutboxStore } from './stores/outboxStore';
+import { useDraftStore } from './stores/draftStore';
+import { usePlaybackStore } from './stores/playbackStore';
+import { useOfflineStore } from './stores/offlineStore';
+import { useReadStore } from './stores/readStore';
 
 function App() {
   const [isLoading, setIsLoading] = useState(true);
@@ -31,6 +39,30 @@ function App() {
     return () => subscription.unsubscribe();
   }, [setSession]);
 
+  const userId = session?.user.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    // Recordings left unsent by a closed tab or crash
+    useDraftStore.getState().load();
+    useOfflineStore.getState().load();
+
+    // Resume sending any voice messages queued before a reload or outage
+    const stopOutbox = useOutboxStore.getState().start();
+    // Unread badges follow new messages as they arrive
+    const stopUnread = useReadStore.getState().start();
+
+    return () => {
+      stopOutbox();
+      stopUnread();
+      useReadStore.getState().reset();
+      // Don't keep playing someone's messages after they sign out
+      usePlaybackStore.getState().reset();
+      useOfflineStore.getState().reset();
+    };
+  }, [userId]);
+
   if (isLoading) {
     return <Loading />;
   }
@@ -47,9 +79,13 @@ function App() {
         {/* Protected Routes */}
         <Route element={<AppLayout />}>
           <Route path="/dashboard" element={session ? <Dashboard /> : <Navigate to="/login" />} />
+          <Route path="/conversations" element={session ? <Conversations /> : <Navigate to="/login" />} />
+          <Route path="/conversations/:id" element={session ? <Conversation /> : <Navigate to="/login" />} />
+          <Route path="/messages" element={<Navigate to="/conversations" replace />} />
           <Route path="/messages/:contactId" element={session ? <Messages /> : <Navigate to="/login" />} />
           <Route path="/profile" element={session ? <Profile /> : <Navigate to="/login" />} />
           <Route path="/contacts" element={session ? <Contacts /> : <Navigate to="/login" />} />
+          <Route path="/bookmarks" element={session ? <Bookmarks /> : <Navigate to="/login" />} />
         </Route>
 
         {/* Default Route */}
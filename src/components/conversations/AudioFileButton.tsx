@@ -0,0 +1,58 @@
+import { useRef, useState } from 'react';
+import { Paperclip } from 'lucide-react';
+import { AUDIO_FILE_ACCEPT, prepareAudioFile, type ImportedAudio } from '../../lib/audioImport';
+import { useAuthStore } from '../../stores/authStore';
+import Loading from '../ui/Loading';
+
+interface AudioFileButtonProps {
+  onImported: (audio: ImportedAudio) => void;
+  className?: string;
+}
+
+const AudioFileButton = ({ onImported, className = '' }: AudioFileButtonProps) => {
+  const [isPreparing, setIsPreparing] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { recordingPolicy } = useAuthStore();
+  
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after an error
+    e.target.value = '';
+    if (!file) return;
+    
+    setIsPreparing(true);
+    
+    try {
+      onImported(await prepareAudioFile(file, recordingPolicy));
+    } catch (error) {
+      console.error('Error importing audio file:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import the audio file.');
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+  
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={AUDIO_FILE_ACCEPT}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={isPreparing}
+        className={`inline-flex items-center rounded-full p-2 text-gray-400 hover:text-gray-600 focus:outline-none disabled:opacity-50 ${className}`}
+      >
+        {isPreparing ? <Loading size={24} className="m-0 w-auto" /> : <Paperclip className="h-6 w-6" />}
+        <span className="sr-only">Attach audio file</span>
+      </button>
+    </>
+  );
+};
+
+export default AudioFileButton;
@@ -1,94 +1,132 @@
-import { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Bookmark, Star, Rewind, FastForward, MessageSquare } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo, useId } from 'react';
+import { Play, Pause, Bookmark, Star, Rewind, FastForward, MessageSquare, MessageCircle, Pencil, Trash2, Scissors, Repeat } from 'lucide-react';
+import WaveSurfer from 'wavesurfer.js';
 import { supabase } from '../../lib/supabase';
-import { formatDuration } from '../../lib/utils';
+import { formatDate, formatDuration } from '../../lib/utils';
+import { baseMimeType } from '../../lib/recordingFormat';
+import { describeAudioError, getAudioUrl, toStoragePath } from '../../lib/audioUrls';
+import { formatPlaybackRate, PLAYBACK_RATES } from '../../lib/settings';
+import { DEFAULT_CLIP_SEC, type ClipRange } from '../../lib/clips';
+import { BOOKMARK_COLUMNS, getBookmarkColor, sortBookmarks, type Bookmark as SavedBookmark, type BookmarkValues } from '../../lib/bookmarks';
 import { useAuthStore } from '../../stores/authStore';
+import { useOfflineStore } from '../../stores/offlineStore';
+import { useReadStore } from '../../stores/readStore';
+import { toThreads, useCommentStore, type MessageComment } from '../../stores/commentStore';
+import { getPlaybackElement, usePlaybackStore, type LoopSettings, type PlaybackTrack } from '../../stores/playbackStore';
+import BookmarkEditor from './BookmarkEditor';
+import MessageComments from './MessageComments';
+import ClipForwarder from './ClipForwarder';
+import LoopControls from './LoopControls';
 
-interface Bookmark {
-  id: string;
-  timestamp_sec: number;
-  label: string;
-}
+// How long a deleted bookmark can be restored
+const UNDO_TIMEOUT_MS = 8000;
+
+const NO_COMMENTS: MessageComment[] = [];
+
+// Length of a new loop, starting from where the user is
+const DEFAULT_LOOP_SEC = 10;
 
 interface AudioPlayerProps {
-  messageId: string;
-  audioUrl: string;
-  duration: number;
+  track: PlaybackTrack;
+  // Messages to play after this one when it is started from here
+  queue?: PlaybackTrack[];
+  waveformPeaks?: number[] | null;
   isFavorited?: boolean;
 }
 
-const AudioPlayer = ({ messageId, audioUrl, duration, isFavorited = false }: AudioPlayerProps) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+const AudioPlayer = ({ track, queue, waveformPeaks, isFavorited = false }: AudioPlayerProps) => {
+  const { messageId, duration, mimeType } = track;
   const [favorite, setFavorite] = useState(isFavorited);
-  const [audioSrc, setAudioSrc] = useState<string | null>(null);
-  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [bookmarks, setBookmarks] = useState<SavedBookmark[]>([]);
   const [showBookmarks, setShowBookmarks] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [editing, setEditing] = useState<{ timestamp: number; bookmark?: SavedBookmark } | null>(null);
+  const [deletedBookmark, setDeletedBookmark] = useState<SavedBookmark | null>(null);
+  const [showComments, setShowComments] = useState(false);
+  // The part of the message selected for forwarding, while the clip panel is open
+  const [clipRange, setClipRange] = useState<ClipRange | null>(null);
+  // The loop being set up, while the loop panel is open
+  const [loopDraft, setLoopDraft] = useState<LoopSettings | null>(null);
+  const [urlError, setUrlError] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const sliderRef = useRef<HTMLDivElement>(null);
+  const bookmarksToggleRef = useRef<HTMLButtonElement>(null);
+  const bookmarksPanelRef = useRef<HTMLDivElement>(null);
+  const shortcutsId = useId();
+  const bookmarksPanelId = useId();
+  const commentsPanelId = useId();
+  const clipPanelId = useId();
+  const loopPanelId = useId();
   const { user } = useAuthStore();
   
+  // Only the message that owns the shared <audio> element follows its progress;
+  // every other player stays at rest without re-rendering on each time update
+  const isCurrent = usePlaybackStore(state => state.track?.messageId === messageId);
+  const playbackTime = usePlaybackStore(state => (isCurrent ? state.currentTime : 0));
+  const isPlaying = usePlaybackStore(state => isCurrent && state.isPlaying);
+  const isLoading = usePlaybackStore(state => isCurrent && state.isLoading);
+  const savedPosition = usePlaybackStore(state => state.positions[messageId] ?? 0);
+  const currentTime = isCurrent ? playbackTime : savedPosition;
+  const mediaDuration = usePlaybackStore(state => (isCurrent ? state.mediaDuration : null));
+  const playbackError = usePlaybackStore(state => (isCurrent ? state.error : null));
+  const playbackRate = usePlaybackStore(state => state.playbackRate);
+  const activeLoop = usePlaybackStore(state => (state.loop?.messageId === messageId ? state.loop : null));
+  const loopCount = usePlaybackStore(state => (activeLoop ? state.loopCount : 0));
+  const isLoopGap = usePlaybackStore(state => !!activeLoop && isCurrent && state.isLoopGap);
+  const { play, pause, seek, skip, setPlaybackRate, setLoop } = usePlaybackStore.getState();
+  
+  const isDownloaded = useOfflineStore(state => !!state.audio[toStoragePath(track.audioUrl)]);
+  
+  // Shared with everyone in the conversation, unlike bookmarks
+  const comments = useCommentStore(state => state.byMessage[messageId] ?? NO_COMMENTS);
+  const threads = useMemo(() => toThreads(comments), [comments]);
+  
+  // Fail early with a clear message rather than a silent playback error
+  const isSupported = useMemo(
+    () => !mimeType || !!document.createElement('audio').canPlayType(baseMimeType(mimeType)),
+    [mimeType]
+  );
+  const error = isSupported ? playbackError ?? urlError : describeAudioError(new Error('Format not supported'));
+  
+  // Sign the URL once the message scrolls into view, so playback starts at
+  // once and missing files show up front; players that appear together are
+  // signed in one request. Downloaded messages play from the device instead.
   useEffect(() => {
-    const fetchAudio = async () => {
-      setIsLoading(true);
-      setError(null);
-      setAudioSrc(null); // Reset audio source when fetching new audio
+    const element = rootRef.current;
+    if (!element || !isSupported) return;
+    
+    setUrlError(null);
+    if (isDownloaded) return;
+    
+    let cancelled = false;
+    
+    const observer = new IntersectionObserver((entries) => {
+      if (!entries.some(entry => entry.isIntersecting)) return;
       
-      try {
-        if (!audioUrl) {
-          throw new Error('Audio URL is missing');
-        }
-
-        // Remove 'voices/' prefix if it exists to prevent double prefix
-        const formattedUrl = audioUrl.startsWith('voices/') ? audioUrl.substring(7) : audioUrl;
-
-        const { data, error } = await supabase.storage
-          .from('voices')
-          .createSignedUrl(formattedUrl, 3600); // 1 hour expiry
-        
-        if (error) {
-          if (error.message.includes('not_found') || error.statusCode === '404') {
-            throw new Error('This audio message is no longer available. The file may have been deleted or moved.');
-          }
-          throw error;
-        }
-        
-        if (!data?.signedUrl) {
-          throw new Error('Failed to generate audio URL');
-        }
-
-        // Verify the audio file is accessible before setting it
-        const response = await fetch(data.signedUrl, { method: 'HEAD' });
-        if (!response.ok) {
-          throw new Error('Audio file is not accessible');
-        }
-        
-        setAudioSrc(data.signedUrl);
-      } catch (error) {
-        console.error('Error fetching audio:', error);
-        let errorMessage = 'Unable to load the audio message';
-        
-        if (error instanceof Error) {
-          // Provide user-friendly error messages
-          if (error.message.includes('not_found') || error.message.includes('no longer available')) {
-            errorMessage = error.message;
-          } else if (error.message.includes('Invalid audio URL')) {
-            errorMessage = 'The audio file location is invalid';
-          } else if (error.message.includes('not accessible')) {
-            errorMessage = 'The audio file cannot be accessed at this time';
-          }
-        }
-        
-        setError(errorMessage);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+      observer.disconnect();
+      getAudioUrl(track.audioUrl).catch(error => {
+        if (!cancelled) setUrlError(describeAudioError(error));
+      });
+    }, { rootMargin: '200px' });
+    
+    observer.observe(element);
     
-    fetchAudio();
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [track.audioUrl, isSupported, isDownloaded]);
+  
+  useEffect(() => {
     fetchBookmarks();
-  }, [audioUrl]);
+  }, [messageId]);
+  
+  // Playing a message counts as reading it, however it was reached
+  useEffect(() => {
+    if (!isPlaying || !user || track.senderId === user.id) return;
+    
+    useReadStore.getState().markRead({ id: messageId, conversationId: track.conversationId });
+  }, [isPlaying, user, messageId, track.senderId, track.conversationId]);
   
   const fetchBookmarks = async () => {
     if (!user) return;
@@ -96,7 +134,7 @@ const AudioPlayer = ({ messageId, audioUrl, duration, isFavorited = false }: Aud
     try {
       const { data, error } = await supabase
         .from('bookmarks')
-        .select('id, timestamp_sec, label')
+        .select(BOOKMARK_COLUMNS)
         .eq('message_id', messageId)
         .eq('user_id', user.id)
         .order('timestamp_sec');
@@ -115,87 +153,80 @@ const AudioPlayer = ({ messageId, audioUrl, duration, isFavorited = false }: Aud
     setFavorite(isFavorited);
   }, [isFavorited]);
   
+  // Prefer the length the browser measures over the stored value, which may be
+  // from an older recording that only counted whole seconds
+  const totalDuration = mediaDuration ?? duration;
+  
+  // Draw the stored peaks; while this message is playing, wavesurfer follows
+  // and seeks the shared <audio> element, so the file is never downloaded just
+  // to draw
   useEffect(() => {
-    const audio = audioRef.current;
-    
-    if (!audio) return;
+    const container = waveformRef.current;
     
-    const updateTime = () => {
-      setCurrentTime(audio.currentTime);
-    };
+    if (!container || !waveformPeaks?.length) return;
     
-    const handleEnded = () => {
-      setIsPlaying(false);
-      setCurrentTime(0);
-    };
-
-    const handleError = (e: ErrorEvent) => {
-      console.error('Audio playback error:', e);
-      setError('Failed to play the audio file');
-      setIsPlaying(false);
-    };
-    
-    audio.addEventListener('timeupdate', updateTime);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('error', handleError);
+    const wavesurfer = WaveSurfer.create({
+      container,
+      media: isCurrent ? getPlaybackElement() : undefined,
+      interact: isCurrent,
+      peaks: [waveformPeaks],
+      duration,
+      height: 32,
+      waveColor: '#D1D5DB', // gray-300
+      progressColor: '#3B82F6', // primary-500
+      cursorWidth: 0,
+      barWidth: 2,
+      barGap: 1,
+      barRadius: 2,
+    });
     
     return () => {
-      audio.removeEventListener('timeupdate', updateTime);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('error', handleError);
+      wavesurfer.destroy();
     };
-  }, []);
+  }, [isCurrent, waveformPeaks, duration]);
   
   const togglePlayPause = () => {
-    if (!audioRef.current) return;
-    
-    if (isPlaying) {
-      audioRef.current.pause();
+    if (isPlaying || isLoopGap) {
+      pause();
     } else {
-      audioRef.current.play().catch(error => {
-        console.error('Playback failed:', error);
-        setError('Unable to play the audio file');
-        setIsPlaying(false);
-      });
+      play(track, { queue });
     }
+  };
+  
+  // Seeking a message that isn't loaded starts it from that point
+  const seekTo = (time: number) => {
+    const newTime = Math.max(0, Math.min(time, totalDuration));
     
-    setIsPlaying(!isPlaying);
+    if (isCurrent) {
+      seek(newTime);
+    } else {
+      play(track, { queue, startAt: newTime });
+    }
   };
   
   const skipTime = (seconds: number) => {
-    if (!audioRef.current) return;
-    
-    const newTime = Math.max(0, Math.min(audioRef.current.currentTime + seconds, duration));
-    audioRef.current.currentTime = newTime;
-    setCurrentTime(newTime);
+    if (isCurrent) {
+      skip(seconds);
+    } else {
+      seekTo(currentTime + seconds);
+    }
+  };
+  
+  const cyclePlaybackRate = () => {
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playbackRate) + 1) % PLAYBACK_RATES.length];
+    setPlaybackRate(next);
   };
   
   const seekToBookmark = (timestamp: number) => {
-    if (!audioRef.current) return;
-    
-    audioRef.current.currentTime = timestamp;
-    setCurrentTime(timestamp);
-    
-    if (!isPlaying) {
-      audioRef.current.play().catch(error => {
-        console.error('Playback failed:', error);
-        setError('Unable to play the audio file');
-        setIsPlaying(false);
-      });
-      setIsPlaying(true);
-    }
+    play(track, { queue, startAt: timestamp });
   };
   
   const onProgressBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!audioRef.current) return;
-    
     const progressBar = e.currentTarget;
     const rect = progressBar.getBoundingClientRect();
     const clickPosition = (e.clientX - rect.left) / rect.width;
-    const newTime = clickPosition * duration;
     
-    audioRef.current.currentTime = newTime;
-    setCurrentTime(newTime);
+    seekTo(clickPosition * totalDuration);
   };
   
   const toggleFavorite = async () => {
@@ -221,185 +252,654 @@ const AudioPlayer = ({ messageId, audioUrl, duration, isFavorited = false }: Aud
     }
   };
   
-  const addBookmark = async () => {
-    if (!user || !audioRef.current) return;
-    
-    const timestamp = audioRef.current.currentTime;
-    const label = prompt('Enter a label for this bookmark:');
+  const addBookmark = () => {
+    if (!user) return;
     
-    if (!label) return;
+    setEditing({ timestamp: currentTime });
+    setShowBookmarks(true);
+  };
+  
+  const saveBookmark = async (values: BookmarkValues) => {
+    if (!user || !editing) return;
     
     try {
-      const { data, error } = await supabase
-        .from('bookmarks')
-        .insert({
-          message_id: messageId,
-          user_id: user.id,
-          timestamp_sec: timestamp,
-          label
-        })
-        .select()
-        .single();
+      const { data, error } = editing.bookmark
+        ? await supabase
+            .from('bookmarks')
+            .update(values)
+            .eq('id', editing.bookmark.id)
+            .select(BOOKMARK_COLUMNS)
+            .single()
+        : await supabase
+            .from('bookmarks')
+            .insert({
+              message_id: messageId,
+              user_id: user.id,
+              timestamp_sec: editing.timestamp,
+              ...values
+            })
+            .select(BOOKMARK_COLUMNS)
+            .single();
       
       if (error) throw error;
       
       if (data) {
-        setBookmarks([...bookmarks, data]);
+        setBookmarks(sortBookmarks([...bookmarks.filter(b => b.id !== data.id), data]));
       }
       
+      setEditing(null);
+      bookmarksPanelRef.current?.focus();
     } catch (error) {
-      console.error('Error adding bookmark:', error);
-      alert('Failed to add bookmark');
+      console.error('Error saving bookmark:', error);
+      alert('Failed to save bookmark');
     }
   };
   
-  const deleteBookmark = async (bookmarkId: string) => {
+  const cancelEditing = () => {
+    setEditing(null);
+    bookmarksPanelRef.current?.focus();
+  };
+  
+  const deleteBookmark = async (bookmark: SavedBookmark) => {
     try {
-      await supabase
+      const { error } = await supabase
         .from('bookmarks')
         .delete()
-        .eq('id', bookmarkId);
+        .eq('id', bookmark.id);
       
-      setBookmarks(bookmarks.filter(b => b.id !== bookmarkId));
+      if (error) throw error;
+      
+      setBookmarks(bookmarks.filter(b => b.id !== bookmark.id));
+      setDeletedBookmark(bookmark);
+      
+      // The focused delete button is gone; keep focus inside the panel
+      bookmarksPanelRef.current?.focus();
     } catch (error) {
       console.error('Error deleting bookmark:', error);
       alert('Failed to delete bookmark');
     }
   };
   
+  // Put the bookmark back with its original id so nothing else notices it was gone
+  const undoDelete = async () => {
+    if (!user || !deletedBookmark) return;
+    
+    const bookmark = deletedBookmark;
+    setDeletedBookmark(null);
+    
+    try {
+      const { error } = await supabase
+        .from('bookmarks')
+        .insert({
+          ...bookmark,
+          message_id: messageId,
+          user_id: user.id
+        });
+      
+      if (error) throw error;
+      
+      setBookmarks(current => sortBookmarks([...current, bookmark]));
+    } catch (error) {
+      console.error('Error restoring bookmark:', error);
+      alert('Failed to restore bookmark');
+    }
+  };
+  
+  useEffect(() => {
+    if (!deletedBookmark) return;
+    
+    const timer = window.setTimeout(() => setDeletedBookmark(null), UNDO_TIMEOUT_MS);
+    return () => window.clearTimeout(timer);
+  }, [deletedBookmark]);
+  
+  const toggleClip = () => {
+    if (clipRange) {
+      setClipRange(null);
+      return;
+    }
+    
+    const start = Math.min(currentTime, Math.max(0, totalDuration - 1));
+    setClipRange({ start, end: Math.min(totalDuration, start + DEFAULT_CLIP_SEC) });
+  };
+  
+  const toggleLoop = () => {
+    if (loopDraft) {
+      setLoopDraft(null);
+      return;
+    }
+    
+    if (activeLoop) {
+      setLoopDraft(activeLoop);
+      return;
+    }
+    
+    const start = Math.min(currentTime, Math.max(0, totalDuration - 1));
+    setLoopDraft({ start, end: Math.min(totalDuration, start + DEFAULT_LOOP_SEC), gapSec: 0, repeatLimit: null });
+  };
+  
+  // A playing loop follows the panel's edits as long as they make sense
+  const changeLoop = (loop: LoopSettings) => {
+    setLoopDraft(loop);
+    if (activeLoop && loop.end > loop.start) {
+      setLoop({ ...loop, messageId });
+    }
+  };
+  
+  const startLoop = () => {
+    if (!loopDraft) return;
+    
+    setLoop({ ...loopDraft, messageId });
+    play(track, { queue, startAt: loopDraft.start });
+  };
+  
+  const closeBookmarks = () => {
+    setShowBookmarks(false);
+    setEditing(null);
+    bookmarksToggleRef.current?.focus();
+  };
+  
+  // Move focus into the panel when it opens so keyboard users land on it;
+  // the editor focuses its own label field
+  useEffect(() => {
+    if (showBookmarks && !editing) {
+      bookmarksPanelRef.current?.focus();
+    }
+  }, [showBookmarks, editing]);
+  
+  // Shortcuts only apply to the message that has focus, so the players on a
+  // page don't all react to the same key
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.altKey || e.ctrlKey || e.metaKey) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+    
+    // Let a focused button handle its own activation
+    if ((e.key === ' ' || e.key === 'Enter') && e.target instanceof HTMLButtonElement) return;
+    
+    switch (e.key) {
+      case ' ':
+      case 'k':
+      case 'K':
+        togglePlayPause();
+        break;
+      case 'j':
+      case 'J':
+        skipTime(-10);
+        break;
+      case 'l':
+      case 'L':
+        skipTime(10);
+        break;
+      case 'ArrowLeft':
+        skipTime(-5);
+        break;
+      case 'ArrowRight':
+        skipTime(5);
+        break;
+      // Vertical keys would otherwise scroll the page, so only the slider takes them
+      case 'ArrowDown':
+      case 'PageDown':
+        if (e.target !== sliderRef.current) return;
+        skipTime(e.key === 'PageDown' ? -30 : -5);
+        break;
+      case 'ArrowUp':
+      case 'PageUp':
+        if (e.target !== sliderRef.current) return;
+        skipTime(e.key === 'PageUp' ? 30 : 5);
+        break;
+      case 'Home':
+        seekTo(0);
+        break;
+      case 'End':
+        seekTo(totalDuration);
+        break;
+      case 'b':
+      case 'B':
+        addBookmark();
+        break;
+      case '[':
+        if (!clipRange) return;
+        setClipRange({ start: Math.min(currentTime, clipRange.end), end: clipRange.end });
+        break;
+      case ']':
+        if (!clipRange) return;
+        setClipRange({ start: clipRange.start, end: Math.max(currentTime, clipRange.start) });
+        break;
+      case 'Escape':
+        if (clipRange) {
+          setClipRange(null);
+        } else if (loopDraft) {
+          setLoopDraft(null);
+        } else if (showBookmarks) {
+          closeBookmarks();
+        } else {
+          return;
+        }
+        break;
+      default:
+        return;
+    }
+    
+    e.preventDefault();
+    e.stopPropagation();
+  };
+  
+  const controlFocus = 'focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-1';
+  
   if (error) {
     return (
-      <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+      <div role="alert" className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
         <div className="text-error-600 text-sm flex items-center justify-center gap-2">
-          <span>⚠️</span>
+          <span aria-hidden="true">⚠️</span>
           <span>{error}</span>
         </div>
       </div>
     );
   }
   
+  const remainingTime = Math.max(0, totalDuration - currentTime) / playbackRate;
+  const commentMarkers = threads.map((thread) => (
+    <div
+      key={thread.id}
+      aria-hidden="true"
+      className="pointer-events-none absolute top-0 h-full min-w-[2px] border-l-2 border-secondary-500 bg-secondary-500/20"
+      style={{
+        left: `${(thread.start_sec / totalDuration) * 100}%`,
+        width: `${((thread.end_sec - thread.start_sec) / totalDuration) * 100}%`,
+      }}
+    />
+  ));
+  const clipMarker = clipRange && (
+    <div
+      aria-hidden="true"
+      className="pointer-events-none absolute top-0 h-full border-x-2 border-primary-600 bg-primary-500/25"
+      style={{
+        left: `${(clipRange.start / totalDuration) * 100}%`,
+        width: `${(Math.max(0, clipRange.end - clipRange.start) / totalDuration) * 100}%`,
+      }}
+    />
+  );
+  const loopRegion = loopDraft ?? activeLoop;
+  const loopMarker = loopRegion && (
+    <div
+      aria-hidden="true"
+      className={`pointer-events-none absolute top-0 h-full border-x-2 border-success-500 ${activeLoop ? 'bg-success-500/20' : 'bg-success-500/10'}`}
+      style={{
+        left: `${(loopRegion.start / totalDuration) * 100}%`,
+        width: `${(Math.max(0, loopRegion.end - loopRegion.start) / totalDuration) * 100}%`,
+      }}
+    />
+  );
+  const bookmarkMarkers = bookmarks.map((bookmark) => (
+    <div
+      key={bookmark.id}
+      aria-hidden="true"
+      className={`pointer-events-none absolute top-0 h-full w-0.5 ${getBookmarkColor(bookmark.color).className}`}
+      style={{ left: `${(bookmark.timestamp_sec / totalDuration) * 100}%` }}
+    />
+  ));
+  
   return (
-    <div className="relative bg-white rounded-lg shadow-sm p-3 border border-gray-200">
-      {audioSrc && (
-        <audio ref={audioRef} src={audioSrc} preload="metadata" />
-      )}
+    <div
+      ref={rootRef}
+      role="group"
+      aria-label={`Voice message from ${track.senderName}, ${formatDate(track.createdAt)}`}
+      aria-describedby={shortcutsId}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className={`relative bg-white rounded-lg shadow-sm p-3 border border-gray-200 ${controlFocus}`}
+    >
+      <p id={shortcutsId} className="sr-only">
+        Keyboard shortcuts: Space or K to play and pause, J and L to skip 10 seconds,
+        arrow keys to move 5 seconds, Home and End to go to the start or end, B to add a bookmark,
+        and while clipping, [ and ] to set the start and end of the clip.
+      </p>
       
       <div className="space-y-3">
         <div className="flex items-center gap-3">
           <button
             type="button"
             onClick={() => skipTime(-10)}
-            className="flex-shrink-0 h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center text-gray-700 hover:bg-gray-200"
+            aria-label="Back 10 seconds"
+            className={`flex-shrink-0 h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center text-gray-700 hover:bg-gray-200 ${controlFocus}`}
           >
-            <Rewind size={16} />
+            <Rewind size={16} aria-hidden="true" />
           </button>
           
           <button
             type="button"
             onClick={togglePlayPause}
-            disabled={isLoading || !audioSrc}
-            className="flex-shrink-0 h-10 w-10 rounded-full bg-primary-100 flex items-center justify-center text-primary-700 disabled:opacity-50 hover:bg-primary-200"
+            disabled={isLoading}
+            aria-label={isPlaying || isLoopGap ? 'Pause' : 'Play'}
+            className={`flex-shrink-0 h-10 w-10 rounded-full bg-primary-100 flex items-center justify-center text-primary-700 disabled:opacity-50 hover:bg-primary-200 ${controlFocus}`}
           >
-            {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+            {isPlaying || isLoopGap ? <Pause size={20} aria-hidden="true" /> : <Play size={20} aria-hidden="true" />}
           </button>
           
           <button
             type="button"
             onClick={() => skipTime(10)}
-            className="flex-shrink-0 h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center text-gray-700 hover:bg-gray-200"
+            aria-label="Forward 10 seconds"
+            className={`flex-shrink-0 h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center text-gray-700 hover:bg-gray-200 ${controlFocus}`}
           >
-            <FastForward size={16} />
+            <FastForward size={16} aria-hidden="true" />
           </button>
           
           <div className="flex-1">
-            <div 
-              className="h-2 bg-gray-200 rounded-full cursor-pointer relative overflow-hidden"
-              onClick={onProgressBarClick}
+            {/* Arrow keys, Home and End are handled by the group's shortcuts */}
+            <div
+              ref={sliderRef}
+              role="slider"
+              tabIndex={0}
+              aria-label="Seek"
+              aria-valuemin={0}
+              aria-valuemax={Math.round(totalDuration)}
+              aria-valuenow={Math.round(currentTime)}
+              aria-valuetext={`${formatDuration(currentTime)} of ${formatDuration(totalDuration)}`}
+              className={`rounded ${controlFocus}`}
             >
-              <div 
-                className="absolute left-0 top-0 h-full bg-primary-500 rounded-full"
-                style={{ width: `${(currentTime / duration) * 100}%` }}
-              />
-              
-              {/* Bookmark indicators */}
-              {bookmarks.map((bookmark) => (
-                <div
-                  key={bookmark.id}
-                  className="absolute top-0 h-full w-0.5 bg-accent-500"
-                  style={{ left: `${(bookmark.timestamp_sec / duration) * 100}%` }}
-                />
-              ))}
+              {waveformPeaks?.length ? (
+                <div className="relative h-8">
+                  <div
+                    ref={waveformRef}
+                    className="h-full cursor-pointer"
+                    onClick={isCurrent ? undefined : onProgressBarClick}
+                  />
+                  
+                  {/* How far the user got last time */}
+                  {!isCurrent && savedPosition > 0 && (
+                    <div
+                      className="pointer-events-none absolute left-0 top-0 h-full border-r-2 border-primary-400 bg-primary-500/10"
+                      style={{ width: `${(savedPosition / totalDuration) * 100}%` }}
+                    />
+                  )}
+                  
+                  {commentMarkers}
+                  {loopMarker}
+                  {clipMarker}
+                  {bookmarkMarkers}
+                </div>
+              ) : (
+                <div 
+                  className="h-2 bg-gray-200 rounded-full cursor-pointer relative overflow-hidden"
+                  onClick={onProgressBarClick}
+                >
+                  <div 
+                    className="absolute left-0 top-0 h-full bg-primary-500 rounded-full"
+                    style={{ width: `${(currentTime / totalDuration) * 100}%` }}
+                  />
+                  
+                  {commentMarkers}
+                  {loopMarker}
+                  {clipMarker}
+                  {bookmarkMarkers}
+                </div>
+              )}
             </div>
             
-            <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <div className="flex justify-between text-xs text-gray-500 mt-1" aria-hidden="true">
               <span>{formatDuration(currentTime)}</span>
-              <span>{formatDuration(duration)}</span>
+              {/* Time left in real time, so it shrinks faster when sped up */}
+              <span>-{formatDuration(remainingTime)}</span>
             </div>
           </div>
           
           <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={cyclePlaybackRate}
+              title="Playback speed"
+              aria-label={`Playback speed ${formatPlaybackRate(playbackRate)}`}
+              className={`w-10 rounded-md py-0.5 text-xs font-medium tabular-nums ${controlFocus} ${playbackRate === 1 ? 'text-gray-500 hover:bg-gray-100' : 'bg-primary-50 text-primary-700 hover:bg-primary-100'}`}
+            >
+              {formatPlaybackRate(playbackRate)}
+            </button>
+            
             <button
               type="button"
               onClick={addBookmark}
-              className="text-gray-400 hover:text-primary-500 focus:outline-none"
+              aria-label={`Add bookmark at ${formatDuration(currentTime)}`}
+              aria-keyshortcuts="B"
+              className={`rounded text-gray-400 hover:text-primary-500 ${controlFocus}`}
+            >
+              <Bookmark size={18} aria-hidden="true" />
+            </button>
+            
+            <button
+              type="button"
+              onClick={toggleClip}
+              aria-label="Clip and forward"
+              aria-expanded={!!clipRange}
+              aria-controls={clipPanelId}
+              className={`rounded text-gray-400 hover:text-primary-500 ${controlFocus} ${clipRange ? 'text-primary-500' : ''}`}
+            >
+              <Scissors size={18} aria-hidden="true" />
+            </button>
+            
+            <button
+              type="button"
+              onClick={toggleLoop}
+              aria-label={activeLoop ? 'Loop (on)' : 'Loop'}
+              aria-expanded={!!loopDraft}
+              aria-controls={loopPanelId}
+              className={`rounded text-gray-400 hover:text-success-500 ${controlFocus} ${loopDraft || activeLoop ? 'text-success-500' : ''}`}
             >
-              <Bookmark size={18} />
+              <Repeat size={18} aria-hidden="true" />
             </button>
             
             <button
+              ref={bookmarksToggleRef}
               type="button"
-              onClick={() => setShowBookmarks(!showBookmarks)}
-              className={`text-gray-400 hover:text-primary-500 focus:outline-none ${showBookmarks ? 'text-primary-500' : ''}`}
+              onClick={() => (showBookmarks ? closeBookmarks() : setShowBookmarks(true))}
+              aria-label={`Bookmarks (${bookmarks.length})`}
+              aria-expanded={showBookmarks}
+              aria-controls={bookmarksPanelId}
+              className={`relative rounded text-gray-400 hover:text-primary-500 ${controlFocus} ${showBookmarks ? 'text-primary-500' : ''}`}
             >
-              <MessageSquare size={18} />
+              <MessageSquare size={18} aria-hidden="true" />
               {bookmarks.length > 0 && (
-                <span className="absolute -top-1 -right-1 h-4 w-4 text-xs bg-accent-500 text-white rounded-full flex items-center justify-center">
+                <span aria-hidden="true" className="absolute -top-1 -right-1 h-4 w-4 text-xs bg-accent-500 text-white rounded-full flex items-center justify-center">
                   {bookmarks.length}
                 </span>
               )}
             </button>
             
+            <button
+              type="button"
+              onClick={() => setShowComments(!showComments)}
+              aria-label={`Comments (${comments.length})`}
+              aria-expanded={showComments}
+              aria-controls={commentsPanelId}
+              className={`relative rounded text-gray-400 hover:text-secondary-600 ${controlFocus} ${showComments ? 'text-secondary-600' : ''}`}
+            >
+              <MessageCircle size={18} aria-hidden="true" />
+              {comments.length > 0 && (
+                <span aria-hidden="true" className="absolute -top-1 -right-1 h-4 w-4 text-xs bg-secondary-500 text-white rounded-full flex items-center justify-center">
+                  {comments.length}
+                </span>
+              )}
+            </button>
+            
             <button
               type="button"
               onClick={toggleFavorite}
-              className={`focus:outline-none ${favorite ? 'text-amber-500' : 'text-gray-400 hover:text-amber-500'}`}
+              aria-label="Favorite"
+              aria-pressed={favorite}
+              className={`rounded ${controlFocus} ${favorite ? 'text-amber-500' : 'text-gray-400 hover:text-amber-500'}`}
             >
-              <Star size={18} />
+              <Star size={18} aria-hidden="true" />
             </button>
           </div>
         </div>
         
+        {!isCurrent && savedPosition > 0 && (
+          <div className="flex items-center gap-2 text-xs">
+            <button
+              type="button"
+              onClick={() => play(track, { queue, startAt: savedPosition })}
+              className={`rounded font-medium text-primary-600 hover:text-primary-700 ${controlFocus}`}
+            >
+              Resume from {formatDuration(savedPosition)}
+            </button>
+            <span className="text-gray-300" aria-hidden="true">•</span>
+            <button
+              type="button"
+              onClick={() => play(track, { queue, startAt: 0 })}
+              className={`rounded text-gray-500 hover:text-gray-700 ${controlFocus}`}
+            >
+              Start over
+            </button>
+          </div>
+        )}
+        
         {/* Bookmarks panel */}
-        {showBookmarks && bookmarks.length > 0 && (
-          <div className="mt-3 space-y-2">
-            <h4 className="text-sm font-medium text-gray-900">Bookmarks</h4>
-            <div className="space-y-1">
-              {bookmarks.map((bookmark) => (
-                <div
-                  key={bookmark.id}
-                  className="flex items-center justify-between p-2 rounded-md bg-gray-50 hover:bg-gray-100"
+        {showBookmarks && (
+          <div
+            ref={bookmarksPanelRef}
+            id={bookmarksPanelId}
+            role="region"
+            aria-labelledby={`${bookmarksPanelId}-title`}
+            tabIndex={-1}
+            className="mt-3 space-y-2 focus:outline-none"
+          >
+            <h4 id={`${bookmarksPanelId}-title`} className="text-sm font-medium text-gray-900">Bookmarks</h4>
+            
+            {editing && (
+              <BookmarkEditor
+                key={editing.bookmark?.id ?? 'new'}
+                timestamp={editing.timestamp}
+                bookmark={editing.bookmark}
+                onSave={saveBookmark}
+                onCancel={cancelEditing}
+              />
+            )}
+            
+            {deletedBookmark && (
+              <div role="status" className="flex items-center justify-between rounded-md bg-gray-800 px-3 py-2 text-sm text-white">
+                <span>Deleted “{deletedBookmark.label}”</span>
+                <button
+                  type="button"
+                  onClick={undoDelete}
+                  className={`rounded font-medium text-primary-200 hover:text-white ${controlFocus}`}
                 >
-                  <button
-                    type="button"
-                    onClick={() => seekToBookmark(bookmark.timestamp_sec)}
-                    className="flex items-center space-x-2 text-sm text-gray-700 hover:text-primary-600"
-                  >
-                    <Play size={14} />
-                    <span>{formatDuration(bookmark.timestamp_sec)}</span>
-                    <span className="font-medium">{bookmark.label}</span>
-                  </button>
-                  
-                  <button
-                    type="button"
-                    onClick={() => deleteBookmark(bookmark.id)}
-                    className="text-gray-400 hover:text-error-500"
+                  Undo
+                </button>
+              </div>
+            )}
+            
+            {bookmarks.length === 0 ? (
+              !editing && <p className="text-sm text-gray-500">No bookmarks yet. Press B while listening to add one.</p>
+            ) : (
+              <ul className="space-y-1">
+                {bookmarks.map((bookmark) => (
+                  <li
+                    key={bookmark.id}
+                    className="flex items-start justify-between gap-2 p-2 rounded-md bg-gray-50 hover:bg-gray-100"
                   >
-                    <span className="sr-only">Delete bookmark</span>
-                    ×
-                  </button>
-                </div>
-              ))}
-            </div>
+                    <button
+                      type="button"
+                      onClick={() => seekToBookmark(bookmark.timestamp_sec)}
+                      className={`min-w-0 flex-1 rounded text-left text-sm text-gray-700 hover:text-primary-600 ${controlFocus}`}
+                    >
+                      <span className="flex items-center space-x-2">
+                        <span
+                          title={getBookmarkColor(bookmark.color).label}
+                          className={`h-2.5 w-2.5 flex-shrink-0 rounded-full ${getBookmarkColor(bookmark.color).className}`}
+                        />
+                        <span className="sr-only">{getBookmarkColor(bookmark.color).label}:</span>
+                        <span>{formatDuration(bookmark.timestamp_sec)}</span>
+                        <span className="truncate font-medium">{bookmark.label}</span>
+                      </span>
+                      {bookmark.note && (
+                        <span className="mt-0.5 block whitespace-pre-line pl-4 text-xs text-gray-500">{bookmark.note}</span>
+                      )}
+                    </button>
+                    
+                    <div className="flex flex-shrink-0 items-center space-x-1">
+                      <button
+                        type="button"
+                        onClick={() => setEditing({ timestamp: bookmark.timestamp_sec, bookmark })}
+                        aria-label={`Edit bookmark ${bookmark.label}`}
+                        className={`rounded p-0.5 text-gray-400 hover:text-primary-500 ${controlFocus}`}
+                      >
+                        <Pencil size={14} aria-hidden="true" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => deleteBookmark(bookmark)}
+                        aria-label={`Delete bookmark ${bookmark.label}`}
+                        className={`rounded p-0.5 text-gray-400 hover:text-error-500 ${controlFocus}`}
+                      >
+                        <Trash2 size={14} aria-hidden="true" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        
+        {/* Clip panel */}
+        {clipRange && (
+          <div
+            id={clipPanelId}
+            role="region"
+            aria-labelledby={`${clipPanelId}-title`}
+            className="mt-3 space-y-2"
+          >
+            <h4 id={`${clipPanelId}-title`} className="text-sm font-medium text-gray-900">Forward a clip</h4>
+            <ClipForwarder
+              track={track}
+              range={clipRange}
+              currentTime={currentTime}
+              totalDuration={totalDuration}
+              onRangeChange={setClipRange}
+              onPreview={() => play(track, { queue, startAt: clipRange.start })}
+              onClose={() => setClipRange(null)}
+            />
+          </div>
+        )}
+        
+        {/* Loop panel */}
+        {loopDraft && (
+          <div
+            id={loopPanelId}
+            role="region"
+            aria-labelledby={`${loopPanelId}-title`}
+            className="mt-3 space-y-2"
+          >
+            <h4 id={`${loopPanelId}-title`} className="text-sm font-medium text-gray-900">Practice loop</h4>
+            <LoopControls
+              loop={loopDraft}
+              bookmarks={bookmarks}
+              currentTime={currentTime}
+              totalDuration={totalDuration}
+              isActive={!!activeLoop}
+              count={loopCount}
+              isGap={isLoopGap}
+              onChange={changeLoop}
+              onStart={startLoop}
+              onStop={() => setLoop(null)}
+            />
+          </div>
+        )}
+        
+        {/* Comments panel */}
+        {showComments && (
+          <div
+            id={commentsPanelId}
+            role="region"
+            aria-labelledby={`${commentsPanelId}-title`}
+            className="mt-3 space-y-2"
+          >
+            <h4 id={`${commentsPanelId}-title`} className="text-sm font-medium text-gray-900">Comments</h4>
+            <MessageComments
+              messageId={messageId}
+              threads={threads}
+              currentTime={currentTime}
+              totalDuration={totalDuration}
+              onSeek={seekToBookmark}
+            />
           </div>
         )}
       </div>
@@ -407,4 +907,4 @@ const AudioPlayer = ({ messageId, audioUrl, duration, isFavorited = false }: Aud
   );
 };
 
-export default AudioPlayer;
\ No newline at end of file
+export default AudioPlayer;
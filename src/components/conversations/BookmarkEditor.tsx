@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { formatDuration } from '../../lib/utils';
+import { BOOKMARK_COLORS, DEFAULT_BOOKMARK_COLOR, type Bookmark, type BookmarkValues } from '../../lib/bookmarks';
+
+interface BookmarkEditorProps {
+  timestamp: number;
+  bookmark?: Bookmark;
+  onSave: (values: BookmarkValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+const BookmarkEditor = ({ timestamp, bookmark, onSave, onCancel }: BookmarkEditorProps) => {
+  const [label, setLabel] = useState(bookmark?.label ?? '');
+  const [note, setNote] = useState(bookmark?.note ?? '');
+  const [color, setColor] = useState(bookmark?.color ?? DEFAULT_BOOKMARK_COLOR);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({ label: label.trim(), note: note.trim() || null, color });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={handleKeyDown}
+      className="space-y-2 rounded-md border border-gray-200 bg-gray-50 p-3"
+    >
+      <p className="text-xs font-medium text-gray-500">
+        {bookmark ? 'Edit bookmark' : 'New bookmark'} at {formatDuration(timestamp)}
+      </p>
+
+      <input
+        type="text"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        placeholder="Label"
+        aria-label="Bookmark label"
+        maxLength={120}
+        required
+        autoFocus
+        className="block w-full rounded-md border-gray-300 text-sm focus:border-primary-500 focus:ring-primary-500"
+      />
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note (optional)"
+        aria-label="Bookmark note"
+        rows={2}
+        className="block w-full rounded-md border-gray-300 text-sm focus:border-primary-500 focus:ring-primary-500"
+      />
+
+      <fieldset>
+        <legend className="sr-only">Category</legend>
+        <div className="flex flex-wrap items-center gap-2">
+          {BOOKMARK_COLORS.map((option) => (
+            <label
+              key={option.value}
+              title={option.label}
+              className="relative cursor-pointer"
+            >
+              <input
+                type="radio"
+                name="bookmark-color"
+                value={option.value}
+                checked={color === option.value}
+                onChange={() => setColor(option.value)}
+                className="peer sr-only"
+              />
+              <span
+                className={`flex h-6 w-6 items-center justify-center rounded-full text-white peer-focus-visible:ring-2 peer-focus-visible:ring-primary-500 peer-focus-visible:ring-offset-1 ${option.className}`}
+              >
+                {color === option.value && <Check size={14} aria-hidden="true" />}
+              </span>
+              <span className="sr-only">{option.label}</span>
+            </label>
+          ))}
+          <span className="text-xs text-gray-500">
+            {BOOKMARK_COLORS.find(option => option.value === color)?.label}
+          </span>
+        </div>
+      </fieldset>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md px-3 py-1 text-sm text-gray-600 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || !label.trim()}
+          className="rounded-md bg-primary-600 px-3 py-1 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default BookmarkEditor;
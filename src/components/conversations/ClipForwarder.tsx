@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Play, Send } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { formatDuration } from '../../lib/utils';
+import { extractClip, type ClipRange } from '../../lib/clips';
+import { checkRecording } from '../../lib/recordingPolicy';
+import { useAuthStore } from '../../stores/authStore';
+import { useOutboxStore } from '../../stores/outboxStore';
+import type { PlaybackTrack } from '../../stores/playbackStore';
+import TimeInput from './TimeInput';
+
+interface Destination {
+  id: string;
+  name: string;
+}
+
+interface ClipForwarderProps {
+  track: PlaybackTrack;
+  range: ClipRange;
+  currentTime: number;
+  totalDuration: number;
+  onRangeChange: (range: ClipRange) => void;
+  onPreview: () => void;
+  onClose: () => void;
+}
+
+const ClipForwarder = ({ track, range, currentTime, totalDuration, onRangeChange, onPreview, onClose }: ClipForwarderProps) => {
+  const [destinations, setDestinations] = useState<Destination[]>([]);
+  const [destinationId, setDestinationId] = useState(track.conversationId);
+  const [isForwarding, setIsForwarding] = useState(false);
+  const { user, recordingPolicy } = useAuthStore();
+  const { enqueue } = useOutboxStore();
+
+  useEffect(() => {
+    const fetchDestinations = async () => {
+      if (!user) return;
+
+      try {
+        // Only conversations the user belongs to; the insert policy checks this too
+        const { data, error } = await supabase
+          .from('conversation_participants')
+          .select(`
+            conversation:conversations(
+              id,
+              client:profiles!conversations_client_id_fkey(id, full_name),
+              mentor:profiles!conversations_mentor_id_fkey(id, full_name)
+            )
+          `)
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+
+        const conversations = (data || [])
+          .map(row => (Array.isArray(row.conversation) ? row.conversation[0] : row.conversation))
+          .filter(Boolean)
+          .map(conversation => {
+            const people = [conversation.client, conversation.mentor]
+              .map(person => (Array.isArray(person) ? person[0] : person))
+              .filter(person => person && person.id !== user.id);
+
+            return {
+              id: conversation.id as string,
+              name: people.map(person => person.full_name).join(' & ') || 'Conversation',
+            };
+          })
+          .sort((a, b) => a.name.localeCompare(b.name));
+
+        setDestinations(conversations);
+      } catch (error) {
+        console.error('Error fetching conversations:', error);
+      }
+    };
+
+    fetchDestinations();
+  }, [user]);
+
+  const clipDuration = range.end - range.start;
+  const problem = clipDuration <= 0
+    ? 'The end of the clip must come after its start.'
+    : checkRecording(recordingPolicy, { duration: clipDuration, size: 0 });
+
+  const forwardClip = async () => {
+    if (!user || problem) return;
+
+    setIsForwarding(true);
+
+    try {
+      const clip = await extractClip(track.audioUrl, range.start, range.end);
+
+      const sizeProblem = checkRecording(recordingPolicy, { duration: clip.duration, size: clip.blob.size });
+      if (sizeProblem) {
+        alert(sizeProblem);
+        return;
+      }
+
+      // Queue it like a recording, so it is retried if the upload fails
+      await enqueue({
+        conversationId: destinationId,
+        senderId: user.id,
+        blob: clip.blob,
+        duration: clip.duration,
+        waveformPeaks: clip.waveformPeaks,
+        source: { messageId: track.messageId, startSec: range.start, endSec: range.end },
+      });
+
+      onClose();
+    } catch (error) {
+      console.error('Error forwarding clip:', error);
+      alert('Failed to create the clip. Please try again.');
+    } finally {
+      setIsForwarding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <span>From</span>
+        <TimeInput
+          label="Clip start"
+          value={range.start}
+          max={range.end}
+          onChange={(start) => onRangeChange({ ...range, start })}
+        />
+        <span>to</span>
+        <TimeInput
+          label="Clip end"
+          value={range.end}
+          max={totalDuration}
+          onChange={(end) => onRangeChange({ ...range, end })}
+        />
+        <span className="tabular-nums text-gray-500">({formatDuration(Math.max(0, clipDuration))})</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <button
+          type="button"
+          onClick={() => onRangeChange({ start: Math.min(currentTime, range.end), end: range.end })}
+          aria-keyshortcuts="["
+          className="rounded text-primary-600 hover:text-primary-700"
+        >
+          Start here
+        </button>
+        <button
+          type="button"
+          onClick={() => onRangeChange({ start: range.start, end: Math.max(currentTime, range.start) })}
+          aria-keyshortcuts="]"
+          className="rounded text-primary-600 hover:text-primary-700"
+        >
+          End here
+        </button>
+        <button
+          type="button"
+          onClick={onPreview}
+          className="flex items-center gap-1 rounded text-gray-600 hover:text-gray-900"
+        >
+          <Play size={12} aria-hidden="true" />
+          Preview
+        </button>
+      </div>
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-700">Forward to</span>
+        <select
+          value={destinationId}
+          onChange={(e) => setDestinationId(e.target.value)}
+          className="mt-1 block w-full rounded-md border-gray-300 text-sm focus:border-primary-500 focus:ring-primary-500"
+        >
+          {!destinations.some(destination => destination.id === track.conversationId) && (
+            <option value={track.conversationId}>This conversation</option>
+          )}
+          {destinations.map((destination) => (
+            <option key={destination.id} value={destination.id}>
+              {destination.id === track.conversationId ? `${destination.name} (this conversation)` : destination.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {problem && <p className="text-xs text-error-600">{problem}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-md px-3 py-1 text-sm text-gray-600 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={forwardClip}
+          disabled={isForwarding || !!problem}
+          className="flex items-center gap-1 rounded-md bg-primary-600 px-3 py-1 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          <Send size={14} aria-hidden="true" />
+          {isForwarding ? 'Creating clip…' : 'Forward clip'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClipForwarder;
@@ -0,0 +1,33 @@
+import { Scissors } from 'lucide-react';
+import { formatDuration } from '../../lib/utils';
+
+interface ClipSourceLabelProps {
+  startSec: number;
+  endSec: number;
+  // Given when the original is in the same conversation
+  onShowSource?: () => void;
+}
+
+const ClipSourceLabel = ({ startSec, endSec, onShowSource }: ClipSourceLabelProps) => {
+  const range = `${formatDuration(startSec)}–${formatDuration(endSec)}`;
+
+  return (
+    <p className="mb-1 flex items-center gap-1 text-xs text-gray-500">
+      <Scissors size={12} aria-hidden="true" />
+      <span>Clip of {range} from</span>
+      {onShowSource ? (
+        <button
+          type="button"
+          onClick={onShowSource}
+          className="rounded font-medium text-primary-600 hover:text-primary-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+        >
+          an earlier message
+        </button>
+      ) : (
+        <span>another message</span>
+      )}
+    </p>
+  );
+};
+
+export default ClipSourceLabel;
@@ -0,0 +1,44 @@
+import { AlertTriangle } from 'lucide-react';
+
+interface InputLevelMeterProps {
+  level: number;
+  isSilent: boolean;
+  isClipping: boolean;
+  className?: string;
+}
+
+const InputLevelMeter = ({ level, isSilent, isClipping, className = '' }: InputLevelMeterProps) => {
+  return (
+    <div className={className}>
+      <div
+        className="h-2 w-full rounded-full bg-gray-200 overflow-hidden"
+        role="meter"
+        aria-label="Microphone input level"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(level * 100)}
+      >
+        <div
+          className={`h-full rounded-full transition-[width] duration-100 ${isClipping ? 'bg-error-500' : 'bg-success-500'}`}
+          style={{ width: `${level * 100}%` }}
+        />
+      </div>
+      
+      {isSilent && (
+        <p role="status" className="mt-1 flex items-center text-xs text-warning-700">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          No sound detected. Check that your microphone isn't muted.
+        </p>
+      )}
+      
+      {!isSilent && isClipping && (
+        <p role="status" className="mt-1 flex items-center text-xs text-error-700">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Your input is too loud. Move back from the microphone or lower its volume.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default InputLevelMeter;
@@ -0,0 +1,155 @@
+import { Repeat, Square } from 'lucide-react';
+import { formatDuration } from '../../lib/utils';
+import type { Bookmark } from '../../lib/bookmarks';
+import type { LoopSettings } from '../../stores/playbackStore';
+import TimeInput from './TimeInput';
+
+const GAP_OPTIONS = [0, 1, 2, 3, 5];
+const REPEAT_OPTIONS = [null, 3, 5, 10];
+
+interface LoopControlsProps {
+  loop: LoopSettings;
+  bookmarks: Bookmark[];
+  currentTime: number;
+  totalDuration: number;
+  // Whether this loop is the one playing
+  isActive: boolean;
+  count: number;
+  isGap: boolean;
+  onChange: (loop: LoopSettings) => void;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const LoopControls = ({ loop, bookmarks, currentTime, totalDuration, isActive, count, isGap, onChange, onStart, onStop }: LoopControlsProps) => {
+  const problem = loop.end <= loop.start ? 'B must come after A.' : null;
+  const isFinished = loop.repeatLimit !== null && count >= loop.repeatLimit;
+
+  let status: string;
+  if (isFinished) {
+    status = `Finished ${count} repetitions`;
+  } else if (loop.repeatLimit !== null) {
+    status = `Repetition ${count + 1} of ${loop.repeatLimit}`;
+  } else {
+    status = `Repetition ${count + 1}`;
+  }
+
+  const bookmarkSelect = (label: string, onSelect: (timestamp: number) => void) => (
+    <select
+      value=""
+      onChange={(e) => {
+        if (e.target.value) onSelect(Number(e.target.value));
+      }}
+      aria-label={label}
+      className="rounded-md border-gray-300 py-1 pl-2 pr-7 text-xs focus:border-primary-500 focus:ring-primary-500"
+    >
+      <option value="">Bookmark…</option>
+      {bookmarks.map((bookmark) => (
+        <option key={bookmark.id} value={bookmark.timestamp_sec}>
+          {formatDuration(bookmark.timestamp_sec)} {bookmark.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 text-xs text-gray-600">
+        <span className="font-medium">A</span>
+        <div className="flex flex-wrap items-center gap-2">
+          <TimeInput
+            label="Loop start"
+            value={loop.start}
+            max={totalDuration}
+            onChange={(start) => onChange({ ...loop, start })}
+          />
+          <button
+            type="button"
+            onClick={() => onChange({ ...loop, start: currentTime })}
+            className="rounded text-primary-600 hover:text-primary-700"
+          >
+            Set to now
+          </button>
+          {bookmarks.length > 0 && bookmarkSelect('Loop start from bookmark', (start) => onChange({ ...loop, start }))}
+        </div>
+
+        <span className="font-medium">B</span>
+        <div className="flex flex-wrap items-center gap-2">
+          <TimeInput
+            label="Loop end"
+            value={loop.end}
+            max={totalDuration}
+            onChange={(end) => onChange({ ...loop, end })}
+          />
+          <button
+            type="button"
+            onClick={() => onChange({ ...loop, end: currentTime })}
+            className="rounded text-primary-600 hover:text-primary-700"
+          >
+            Set to now
+          </button>
+          {bookmarks.length > 0 && bookmarkSelect('Loop end from bookmark', (end) => onChange({ ...loop, end }))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <label className="flex items-center gap-2">
+          <span>Pause between</span>
+          <select
+            value={loop.gapSec}
+            onChange={(e) => onChange({ ...loop, gapSec: Number(e.target.value) })}
+            className="rounded-md border-gray-300 py-1 pl-2 pr-7 text-xs focus:border-primary-500 focus:ring-primary-500"
+          >
+            {GAP_OPTIONS.map((gap) => (
+              <option key={gap} value={gap}>{gap === 0 ? 'None' : `${gap}s`}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2">
+          <span>Repeat</span>
+          <select
+            value={loop.repeatLimit ?? ''}
+            onChange={(e) => onChange({ ...loop, repeatLimit: e.target.value ? Number(e.target.value) : null })}
+            className="rounded-md border-gray-300 py-1 pl-2 pr-7 text-xs focus:border-primary-500 focus:ring-primary-500"
+          >
+            {REPEAT_OPTIONS.map((limit) => (
+              <option key={limit ?? 'forever'} value={limit ?? ''}>{limit === null ? 'Until stopped' : `${limit} times`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {problem && <p className="text-xs text-error-600">{problem}</p>}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs tabular-nums text-gray-500" role="status">
+          {isActive && (isGap ? `${status} · pausing…` : status)}
+        </p>
+
+        {isActive ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="flex items-center gap-1 rounded-md px-3 py-1 text-sm text-gray-600 hover:bg-gray-100"
+          >
+            <Square size={14} aria-hidden="true" />
+            Stop looping
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onStart}
+            disabled={!!problem}
+            className="flex items-center gap-1 rounded-md bg-success-500 px-3 py-1 text-sm font-medium text-white hover:bg-success-700 disabled:opacity-50"
+          >
+            <Repeat size={14} aria-hidden="true" />
+            Loop {formatDuration(loop.start)}–{formatDuration(loop.end)}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoopControls;
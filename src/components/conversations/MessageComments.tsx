@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { Play, Reply, Trash2 } from 'lucide-react';
+import { formatDate, formatDuration, parseDuration } from '../../lib/utils';
+import { useAuthStore } from '../../stores/authStore';
+import { useCommentStore, type CommentThread, type MessageComment } from '../../stores/commentStore';
+
+interface MessageCommentsProps {
+  messageId: string;
+  threads: CommentThread[];
+  currentTime: number;
+  totalDuration: number;
+  onSeek: (time: number) => void;
+}
+
+// Length of the segment a new comment covers until the user changes it
+const DEFAULT_RANGE_SEC = 10;
+
+const controlFocus = 'focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-1';
+
+const MessageComments = ({ messageId, threads, currentTime, totalDuration, onSeek }: MessageCommentsProps) => {
+  const [body, setBody] = useState('');
+  const [start, setStart] = useState(() => formatDuration(currentTime));
+  const [end, setEnd] = useState(() => formatDuration(Math.min(totalDuration, currentTime + DEFAULT_RANGE_SEC)));
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { user } = useAuthStore();
+  const { addComment, deleteComment } = useCommentStore.getState();
+
+  const startSec = parseDuration(start);
+  const endSec = parseDuration(end);
+  const rangeError = startSec === null || endSec === null
+    ? 'Enter times as m:ss'
+    : endSec < startSec || endSec > Math.ceil(totalDuration)
+    ? `Choose a range within 0:00–${formatDuration(totalDuration)}`
+    : null;
+
+  const submitComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim() || rangeError || startSec === null || endSec === null) return;
+
+    setIsSaving(true);
+    try {
+      await addComment({ messageId, body: body.trim(), startSec, endSec });
+      setBody('');
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      alert('Failed to add comment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submitReply = async (e: React.FormEvent, thread: CommentThread) => {
+    e.preventDefault();
+    if (!replyBody.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await addComment({ messageId, body: replyBody.trim(), parentId: thread.id });
+      setReplyBody('');
+      setReplyingTo(null);
+    } catch (error) {
+      console.error('Error adding reply:', error);
+      alert('Failed to add reply');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeComment = async (comment: MessageComment) => {
+    const isThread = comment.parent_id === null;
+    if (!confirm(isThread ? 'Delete this comment and its replies?' : 'Delete this reply?')) return;
+
+    try {
+      await deleteComment(comment);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      alert('Failed to delete comment');
+    }
+  };
+
+  const startAtCurrentTime = () => {
+    setStart(formatDuration(currentTime));
+    setEnd(formatDuration(Math.min(totalDuration, currentTime + DEFAULT_RANGE_SEC)));
+  };
+
+  const renderComment = (comment: MessageComment) => (
+    <div className="flex items-start justify-between gap-2">
+      <div className="min-w-0">
+        <p className="text-xs text-gray-500">
+          <span className="font-medium text-gray-700">{comment.author.full_name}</span>
+          <span className="mx-1 text-gray-400" aria-hidden="true">•</span>
+          {formatDate(comment.created_at)}
+        </p>
+        <p className="text-sm text-gray-900 whitespace-pre-wrap">{comment.body}</p>
+      </div>
+
+      {comment.author_id === user?.id && (
+        <button
+          type="button"
+          onClick={() => removeComment(comment)}
+          aria-label="Delete comment"
+          className={`flex-shrink-0 rounded p-0.5 text-gray-400 hover:text-error-500 ${controlFocus}`}
+        >
+          <Trash2 size={14} aria-hidden="true" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {threads.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet. Comment on a part of this message to start a discussion.</p>
+      ) : (
+        <ul className="space-y-2">
+          {threads.map((thread) => (
+            <li key={thread.id} className="rounded-md bg-gray-50 p-2 space-y-2">
+              <button
+                type="button"
+                onClick={() => onSeek(thread.start_sec)}
+                className={`flex items-center gap-1 rounded text-xs font-medium text-secondary-700 hover:text-secondary-800 ${controlFocus}`}
+              >
+                <Play size={12} aria-hidden="true" />
+                {formatDuration(thread.start_sec)}–{formatDuration(thread.end_sec)}
+              </button>
+
+              {renderComment(thread)}
+
+              {thread.replies.length > 0 && (
+                <ul className="ml-2 space-y-2 border-l-2 border-gray-200 pl-3">
+                  {thread.replies.map((reply) => (
+                    <li key={reply.id}>{renderComment(reply)}</li>
+                  ))}
+                </ul>
+              )}
+
+              {replyingTo === thread.id ? (
+                <form onSubmit={(e) => submitReply(e, thread)} className="ml-2 space-y-2 pl-3">
+                  <textarea
+                    value={replyBody}
+                    onChange={(e) => setReplyBody(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        setReplyingTo(null);
+                      }
+                    }}
+                    placeholder="Write a reply"
+                    aria-label="Reply"
+                    rows={2}
+                    autoFocus
+                    className="block w-full rounded-md border-gray-300 text-sm focus:border-primary-500 focus:ring-primary-500"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setReplyingTo(null)}
+                      className="rounded-md px-3 py-1 text-sm text-gray-600 hover:bg-gray-100"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isSaving || !replyBody.trim()}
+                      className="rounded-md bg-primary-600 px-3 py-1 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      Reply
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setReplyingTo(thread.id);
+                    setReplyBody('');
+                  }}
+                  className={`flex items-center gap-1 rounded text-xs text-gray-500 hover:text-primary-600 ${controlFocus}`}
+                >
+                  <Reply size={12} aria-hidden="true" />
+                  Reply{thread.replies.length > 0 && ` (${thread.replies.length})`}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={submitComment} className="space-y-2 rounded-md border border-gray-200 p-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+          <label className="flex items-center gap-1">
+            From
+            <input
+              type="text"
+              inputMode="numeric"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              aria-invalid={!!rangeError}
+              className="w-14 rounded-md border-gray-300 px-2 py-1 text-xs tabular-nums focus:border-primary-500 focus:ring-primary-500"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            to
+            <input
+              type="text"
+              inputMode="numeric"
+              value={end}
+              onChange={(e) => setEnd(e.target.value)}
+              aria-invalid={!!rangeError}
+              className="w-14 rounded-md border-gray-300 px-2 py-1 text-xs tabular-nums focus:border-primary-500 focus:ring-primary-500"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={startAtCurrentTime}
+            className={`rounded text-primary-600 hover:text-primary-700 ${controlFocus}`}
+          >
+            Use current time
+          </button>
+        </div>
+        {rangeError && <p className="text-xs text-error-600">{rangeError}</p>}
+
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Comment on this part of the message"
+          aria-label="Comment"
+          rows={2}
+          className="block w-full rounded-md border-gray-300 text-sm focus:border-primary-500 focus:ring-primary-500"
+        />
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSaving || !body.trim() || !!rangeError}
+            className="rounded-md bg-primary-600 px-3 py-1 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            Comment
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default MessageComments;
@@ -1,9 +1,22 @@
-import { useState, useRef, useEffect } from 'react';
-import { Send, Mic, StopCircle, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Send, Mic, StopCircle, Pause, Settings2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { formatDuration } from '../../lib/utils';
+import type { ImportedAudio } from '../../lib/audioImport';
+import { canSendNow, checkRecording, describeBusinessHours } from '../../lib/recordingPolicy';
+import { useRecorder } from '../../hooks/useRecorder';
+import { useRecordingDraft } from '../../hooks/useRecordingDraft';
+import { useInputLevel } from '../../hooks/useInputLevel';
+import { describeMicrophoneError } from '../../lib/microphone';
 import { useAuthStore } from '../../stores/authStore';
+import { useOutboxStore } from '../../stores/outboxStore';
 import Loading from '../ui/Loading';
+import RecordingReview from './RecordingReview';
+import RecordingCountdown from './RecordingCountdown';
+import AudioFileButton from './AudioFileButton';
+import RecordingDraftBanner from './RecordingDraftBanner';
+import MicrophoneSettings from './MicrophoneSettings';
+import InputLevelMeter from './InputLevelMeter';
 
 interface MessageInputProps {
   conversationId: string;
@@ -12,145 +25,102 @@ interface MessageInputProps {
 
 const MessageInput = ({ conversationId, onMessageSent }: MessageInputProps) => {
   const [text, setText] = useState('');
-  const [isRecording, setIsRecording] = useState(false);
-  const [recordingTime, setRecordingTime] = useState(0);
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [isSending, setIsSending] = useState(false);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const timerRef = useRef<number | null>(null);
-  const recordingTimeoutRef = useRef<number | null>(null);
-  const { user } = useAuthStore();
-  
-  useEffect(() => {
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-      if (recordingTimeoutRef.current) {
-        clearTimeout(recordingTimeoutRef.current);
-      }
-      if (mediaRecorderRef.current && isRecording) {
-        mediaRecorderRef.current.stop();
-      }
-    };
-  }, [isRecording]);
+  const [importedAudio, setImportedAudio] = useState<ImportedAudio | null>(null);
+  const [showMicSettings, setShowMicSettings] = useState(false);
+  const { user, recordingPolicy } = useAuthStore();
+  const { enqueue } = useOutboxStore();
+  const {
+    status,
+    isRecording,
+    isPaused,
+    isProcessing,
+    recordingTime,
+    recordedDuration,
+    audioBlob,
+    stream,
+    start,
+    pause,
+    resume,
+    stop,
+    reset,
+    restoreDraft,
+    takeStreamedRecording,
+  } = useRecorder({ maxDuration: recordingPolicy.max_duration_sec, uploadChunksTo: conversationId, saveDraftFor: conversationId });
+  const isOpen = canSendNow(recordingPolicy);
+  const input = useInputLevel(isRecording ? stream : null);
   
   const startRecording = async () => {
+    setShowMicSettings(false);
+    
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      
-      const mediaRecorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
-      
-      mediaRecorder.ondataavailable = (e) => {
-        audioChunksRef.current.push(e.data);
-      };
-      
-      mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/mp3' });
-        setAudioBlob(audioBlob);
-        
-        // Stop all tracks in the stream to release the microphone
-        stream.getTracks().forEach(track => track.stop());
-      };
-      
-      // Start recording
-      mediaRecorder.start();
-      setIsRecording(true);
-      setRecordingTime(0);
-      
-      // Start timer
-      timerRef.current = window.setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
-      
-      // Set 15-minute timeout
-      recordingTimeoutRef.current = window.setTimeout(() => {
-        stopRecording();
-      }, 15 * 60 * 1000); // 15 minutes
-      
+      await start();
     } catch (error) {
       console.error('Error accessing microphone:', error);
-      alert('Could not access microphone. Please check permissions.');
+      alert(describeMicrophoneError(error));
     }
   };
   
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
+  const sendRecording = async (blob: Blob, duration: number, waveformPeaks: number[] | null) => {
+    if (!user) return;
+    
+    const problem = checkRecording(recordingPolicy, { duration, size: blob.size });
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    
+    setIsSending(true);
+    
+    try {
+      const streamedRecording = await takeStreamedRecording(blob);
+      
+      // Queue the recording; the outbox uploads it and retries on failure
+      await enqueue({
+        conversationId,
+        senderId: user.id,
+        blob,
+        duration,
+        waveformPeaks,
+        streamedRecording
+      });
       
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
+      // Clear the recorded or imported audio
+      reset();
+      setImportedAudio(null);
+      onMessageSent();
       
-      if (recordingTimeoutRef.current) {
-        clearTimeout(recordingTimeoutRef.current);
-        recordingTimeoutRef.current = null;
-      }
+    } catch (error) {
+      console.error('Error queueing voice message:', error);
+      alert('Failed to save message. Please try again.');
+    } finally {
+      setIsSending(false);
     }
   };
   
-  const cancelRecording = () => {
-    stopRecording();
-    setAudioBlob(null);
-    setRecordingTime(0);
-  };
+  const recordingDraft = useRecordingDraft(conversationId, restoreDraft, sendRecording);
   
   const sendMessage = async () => {
-    if ((!text && !audioBlob) || !user) return;
+    if (!text || !user || !recordingPolicy.allow_text_messages) return;
     
     setIsSending(true);
     
     try {
-      if (audioBlob) {
-        const messageId = crypto.randomUUID();
-        const filePath = `${conversationId}/${messageId}.mp3`;
-        
-        // Upload the audio file
-        const { error: uploadError } = await supabase.storage
-          .from('voices')
-          .upload(filePath, audioBlob, { contentType: 'audio/mp3' });
-        
-        if (uploadError) throw uploadError;
-        
-        // Create the message record
-        const { error: messageError } = await supabase
-          .from('audio_messages')
-          .insert({
-            id: messageId,
-            conversation_id: conversationId,
-            sender_id: user.id,
-            audio_url: filePath,
-            duration: recordingTime
-          });
-        
-        if (messageError) throw messageError;
-        
-        // Clear the recorded audio
-        setAudioBlob(null);
-        setRecordingTime(0);
-      } else if (text) {
-        // Send text message
-        const { error: messageError } = await supabase
-          .from('audio_messages')
-          .insert({
-            conversation_id: conversationId,
-            sender_id: user.id,
-            text_transcript: text,
-            duration: 0,
-            audio_url: null
-          });
-        
-        if (messageError) throw messageError;
-        
-        // Clear the text input
-        setText('');
-      }
+      // Send text message
+      const { error: messageError } = await supabase
+        .from('audio_messages')
+        .insert({
+          conversation_id: conversationId,
+          sender_id: user.id,
+          text_transcript: text,
+          duration: 0,
+          audio_url: null
+        });
+      
+      if (messageError) throw messageError;
       
+      // Clear the text input
+      setText('');
       onMessageSent();
       
     } catch (error) {
@@ -163,16 +133,55 @@ const MessageInput = ({ conversationId, onMessageSent }: MessageInputProps) => {
   
   return (
     <div className="border-t border-gray-200 bg-white px-4 py-3">
+      {status === 'idle' && !importedAudio && recordingDraft.draft && (
+        <RecordingDraftBanner
+          draft={recordingDraft.draft}
+          isBusy={recordingDraft.isBusy || isSending}
+          onResume={recordingDraft.resume}
+          onReview={recordingDraft.review}
+          onSend={recordingDraft.send}
+          onDiscard={recordingDraft.discard}
+        />
+      )}
+      
+      {status === 'idle' && !importedAudio && showMicSettings && (
+        <MicrophoneSettings onClose={() => setShowMicSettings(false)} />
+      )}
+      
       <div className="flex items-center">
-        {!isRecording && !audioBlob && (
+        {status === 'idle' && !importedAudio && !isOpen && (
+          <p className="flex-1 py-2 text-center text-sm text-gray-500">
+            Messages can be sent {describeBusinessHours(recordingPolicy)}.
+          </p>
+        )}
+        
+        {status === 'idle' && !importedAudio && isOpen && (
           <>
-            <input
-              type="text"
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              placeholder="Type a message..."
-              className="flex-1 border-none focus:ring-0 focus:outline-none text-sm"
-            />
+            {recordingPolicy.allow_text_messages ? (
+              <input
+                type="text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Type a message..."
+                className="flex-1 border-none focus:ring-0 focus:outline-none text-sm"
+              />
+            ) : (
+              <span className="flex-1 text-sm text-gray-500">Record a voice message</span>
+            )}
+            
+            {!text && (
+              <button
+                type="button"
+                onClick={() => setShowMicSettings(!showMicSettings)}
+                aria-expanded={showMicSettings}
+                className={`ml-2 inline-flex items-center rounded-full p-2 hover:text-gray-600 focus:outline-none ${showMicSettings ? 'text-primary-600' : 'text-gray-400'}`}
+              >
+                <Settings2 className="h-6 w-6" />
+                <span className="sr-only">Microphone settings</span>
+              </button>
+            )}
+            
+            {!text && <AudioFileButton onImported={setImportedAudio} />}
             
             <button
               type="button"
@@ -189,51 +198,71 @@ const MessageInput = ({ conversationId, onMessageSent }: MessageInputProps) => {
           </>
         )}
         
-        {isRecording && (
+        {(isRecording || isPaused) && (
           <div className="flex-1 flex items-center justify-between">
-            <div className="flex items-center">
-              <div className="mr-3 h-3 w-3 rounded-full bg-error-500 animate-recording-pulse" />
-              <span className="text-sm font-medium text-gray-700">
-                {formatDuration(recordingTime)}
-              </span>
+            <div className="flex-1 mr-4">
+              <div className="flex items-center">
+                <div className={`mr-3 h-3 w-3 rounded-full ${isPaused ? 'bg-gray-400' : 'bg-error-500 animate-recording-pulse'}`} />
+                <span className="text-sm font-medium text-gray-700">
+                  {formatDuration(recordingTime)}
+                </span>
+                {isPaused && (
+                  <span className="ml-2 text-xs font-medium uppercase tracking-wide text-gray-500">Paused</span>
+                )}
+                <RecordingCountdown recordingTime={recordingTime} maxDuration={recordingPolicy.max_duration_sec} />
+              </div>
+              
+              {isRecording && <InputLevelMeter {...input} className="mt-2 max-w-xs" />}
             </div>
             
-            <button
-              type="button"
-              onClick={stopRecording}
-              className="inline-flex items-center rounded-full bg-error-500 p-2 text-white shadow-sm hover:bg-error-600 focus:outline-none"
-            >
-              <StopCircle className="h-6 w-6" />
-            </button>
-          </div>
-        )}
-        
-        {!isRecording && audioBlob && (
-          <div className="flex-1 flex items-center justify-between">
-            <div className="flex items-center space-x-4">
-              <div className="text-sm font-medium text-gray-700">
-                {formatDuration(recordingTime)}
-              </div>
+            <div className="flex items-center space-x-2">
+              <button
+                type="button"
+                onClick={isPaused ? resume : pause}
+                className="inline-flex items-center rounded-full bg-gray-100 p-2 text-gray-700 hover:bg-gray-200 focus:outline-none"
+              >
+                {isPaused ? <Mic className="h-6 w-6" /> : <Pause className="h-6 w-6" />}
+                <span className="sr-only">{isPaused ? 'Resume recording' : 'Pause recording'}</span>
+              </button>
               
               <button
                 type="button"
-                onClick={cancelRecording}
-                className="inline-flex items-center text-gray-500 hover:text-gray-700"
+                onClick={stop}
+                className="inline-flex items-center rounded-full bg-error-500 p-2 text-white shadow-sm hover:bg-error-600 focus:outline-none"
               >
-                <Trash2 className="h-5 w-5" />
+                <StopCircle className="h-6 w-6" />
+                <span className="sr-only">Stop recording</span>
               </button>
             </div>
-            
-            <button
-              type="button"
-              onClick={sendMessage}
-              disabled={isSending}
-              className="inline-flex items-center rounded-full bg-primary-600 p-2 text-white shadow-sm hover:bg-primary-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isSending ? <Loading size={20} className="m-0" /> : <Send className="h-6 w-6" />}
-            </button>
           </div>
         )}
+        
+        {isProcessing && (
+          <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+            <Loading size={20} className="m-0 mr-2 w-auto" />
+            <span>Preparing recording…</span>
+          </div>
+        )}
+        
+        {status === 'recorded' && audioBlob && (
+          <RecordingReview
+            audioBlob={audioBlob}
+            recordedDuration={recordedDuration}
+            isSending={isSending}
+            onDiscard={reset}
+            onSend={sendRecording}
+          />
+        )}
+        
+        {importedAudio && (
+          <RecordingReview
+            audioBlob={importedAudio.blob}
+            recordedDuration={importedAudio.duration}
+            isSending={isSending}
+            onDiscard={() => setImportedAudio(null)}
+            onSend={sendRecording}
+          />
+        )}
       </div>
     </div>
   );
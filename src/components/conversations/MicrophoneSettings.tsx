@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  describeMicrophoneError,
+  getPreferredInputDevice,
+  listInputDevices,
+  openMicrophone,
+  setPreferredInputDevice,
+} from '../../lib/microphone';
+import { useInputLevel } from '../../hooks/useInputLevel';
+import InputLevelMeter from './InputLevelMeter';
+
+interface MicrophoneSettingsProps {
+  onClose: () => void;
+}
+
+const MicrophoneSettings = ({ onClose }: MicrophoneSettingsProps) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState(getPreferredInputDevice() ?? '');
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const input = useInputLevel(previewStream);
+  
+  // Open the selected device for the level preview; device labels are only
+  // available once the user has granted microphone access
+  useEffect(() => {
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    
+    setError(null);
+    
+    openMicrophone(deviceId || null)
+      .then(async stream => {
+        opened = stream;
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        
+        setPreviewStream(stream);
+        setDevices(await listInputDevices());
+      })
+      .catch(error => {
+        console.error('Error opening microphone:', error);
+        if (!cancelled) setError(describeMicrophoneError(error));
+      });
+    
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach(track => track.stop());
+      setPreviewStream(null);
+    };
+  }, [deviceId]);
+  
+  const handleDeviceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setPreferredInputDevice(e.target.value || null);
+    setDeviceId(e.target.value);
+  };
+  
+  return (
+    <div className="mb-3 rounded-lg border border-gray-200 bg-gray-50 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-900">Microphone</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600"
+        >
+          <X className="h-4 w-4" />
+          <span className="sr-only">Close microphone settings</span>
+        </button>
+      </div>
+      
+      {error ? (
+        <p className="text-sm text-error-700">{error}</p>
+      ) : (
+        <div className="space-y-3">
+          <select
+            value={deviceId}
+            onChange={handleDeviceChange}
+            aria-label="Input device"
+            className="block w-full rounded-md border-gray-300 text-sm focus:border-primary-500 focus:ring-primary-500"
+          >
+            <option value="">System default</option>
+            {devices.map((device, index) => (
+              <option key={device.deviceId || index} value={device.deviceId}>
+                {device.label || `Microphone ${index + 1}`}
+              </option>
+            ))}
+          </select>
+          
+          <div>
+            <p className="mb-1 text-xs text-gray-500">Say something to test your input level</p>
+            <InputLevelMeter {...input} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicrophoneSettings;
@@ -0,0 +1,91 @@
+import { Play, Pause, SkipForward, X } from 'lucide-react';
+import { formatDate, formatDuration } from '../../lib/utils';
+import { formatPlaybackRate } from '../../lib/settings';
+import { usePlaybackStore } from '../../stores/playbackStore';
+import Loading from '../ui/Loading';
+
+const MiniPlayer = () => {
+  const {
+    track,
+    queue,
+    isPlaying,
+    isLoading,
+    currentTime,
+    mediaDuration,
+    playbackRate,
+    error,
+    toggle,
+    next,
+    stop,
+  } = usePlaybackStore();
+
+  if (!track) return null;
+
+  const totalDuration = mediaDuration ?? track.duration;
+
+  return (
+    <div className="fixed bottom-16 left-0 right-0 z-10 border-t border-gray-200 bg-white shadow-lg">
+      <div className="h-1 bg-gray-100">
+        <div
+          className="h-full bg-primary-500"
+          style={{ width: `${totalDuration ? (currentTime / totalDuration) * 100 : 0}%` }}
+        />
+      </div>
+
+      <div className="max-w-screen-xl mx-auto flex items-center gap-3 px-4 py-2">
+        <button
+          type="button"
+          onClick={toggle}
+          disabled={isLoading && !isPlaying}
+          className="flex-shrink-0 h-9 w-9 rounded-full bg-primary-100 flex items-center justify-center text-primary-700 disabled:opacity-50 hover:bg-primary-200"
+        >
+          {isLoading && !isPlaying ? (
+            <Loading size={18} />
+          ) : isPlaying ? (
+            <Pause size={18} />
+          ) : (
+            <Play size={18} />
+          )}
+          <span className="sr-only">{isPlaying ? 'Pause' : 'Play'}</span>
+        </button>
+
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium text-gray-900">{track.senderName}</p>
+          {error ? (
+            <p className="truncate text-xs text-error-700">{error}</p>
+          ) : (
+            <p className="truncate text-xs text-gray-500">
+              {formatDate(track.createdAt)}
+              <span className="mx-1 text-gray-400">•</span>
+              {formatDuration(currentTime)} / {formatDuration(totalDuration)}
+              {playbackRate !== 1 && <span className="ml-1">({formatPlaybackRate(playbackRate)})</span>}
+              {queue.length > 0 && <span className="ml-1">· {queue.length} up next</span>}
+            </p>
+          )}
+        </div>
+
+        {queue.length > 0 && (
+          <button
+            type="button"
+            onClick={next}
+            className="flex-shrink-0 text-gray-500 hover:text-gray-700"
+          >
+            <SkipForward size={18} />
+            <span className="sr-only">Next message</span>
+          </button>
+        )}
+
+        <button
+          type="button"
+          onClick={stop}
+          className="flex-shrink-0 text-gray-400 hover:text-gray-600"
+        >
+          <X size={18} />
+          <span className="sr-only">Stop and close player</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MiniPlayer;
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { CheckCircle, Download, X } from 'lucide-react';
+import { toStoragePath } from '../../lib/audioUrls';
+import type { OfflineMessage } from '../../lib/offlineAudio';
+import { useOfflineStore } from '../../stores/offlineStore';
+import Loading from '../ui/Loading';
+
+interface OfflineDownloadButtonProps {
+  conversationId: string;
+  participantIds: string[];
+  messages: OfflineMessage[];
+}
+
+const OfflineDownloadButton = ({ conversationId, participantIds, messages }: OfflineDownloadButtonProps) => {
+  const { isSupported, audio, conversations, downloadConversation, removeConversation } = useOfflineStore();
+  const progress = useOfflineStore(state => state.progress[conversationId]);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  if (!isSupported) return null;
+
+  const audioMessages = messages.filter(message => !!message.audio_url);
+  const savedCount = audioMessages.filter(message => audio[toStoragePath(message.audio_url!)]).length;
+  const isSaved = !!conversations[conversationId];
+
+  const download = async () => {
+    try {
+      const result = await downloadConversation({ id: conversationId, participantIds, messages });
+
+      if (result.skipped > 0) {
+        alert(`Only ${result.saved} of ${audioMessages.length} messages fit in offline storage. Remove other downloads to make room.`);
+      } else if (result.failed > 0) {
+        alert(`${result.failed} message${result.failed === 1 ? '' : 's'} could not be downloaded. Try again when you have a better connection.`);
+      }
+    } catch (error) {
+      console.error('Error downloading conversation:', error);
+      alert('Failed to download this conversation for offline listening');
+    }
+  };
+
+  const remove = async () => {
+    setIsRemoving(true);
+
+    try {
+      await removeConversation(conversationId);
+    } catch (error) {
+      console.error('Error removing offline download:', error);
+      alert('Failed to remove the offline copy');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  if (progress) {
+    return (
+      <span className="flex items-center gap-2 text-sm text-gray-500" role="status">
+        <Loading size={16} />
+        Downloading {progress.done} of {progress.total}…
+      </span>
+    );
+  }
+
+  if (isSaved && savedCount === audioMessages.length) {
+    return (
+      <span className="flex items-center gap-2 text-sm text-success-700">
+        <CheckCircle size={16} aria-hidden="true" />
+        Available offline
+        <button
+          type="button"
+          onClick={remove}
+          disabled={isRemoving}
+          aria-label="Remove offline copy"
+          title="Remove offline copy"
+          className="rounded text-gray-400 hover:text-gray-600 disabled:opacity-50"
+        >
+          <X size={16} aria-hidden="true" />
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={download}
+      disabled={audioMessages.length === 0}
+      className="flex items-center gap-2 rounded-md px-2 py-1 text-sm font-medium text-primary-600 hover:bg-primary-50 disabled:opacity-50"
+    >
+      <Download size={16} aria-hidden="true" />
+      {isSaved ? `Download ${audioMessages.length - savedCount} new for offline` : 'Download for offline'}
+    </button>
+  );
+};
+
+export default OfflineDownloadButton;
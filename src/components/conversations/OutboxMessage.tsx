@@ -0,0 +1,94 @@
+import { AlertTriangle, CloudOff, RotateCw, Trash2 } from 'lucide-react';
+import { formatDate, formatDuration } from '../../lib/utils';
+import { useOutboxStore, type OutboxEntry } from '../../stores/outboxStore';
+import Loading from '../ui/Loading';
+
+interface OutboxMessageProps {
+  entry: OutboxEntry;
+}
+
+const OutboxMessage = ({ entry }: OutboxMessageProps) => {
+  const { retry, discard } = useOutboxStore();
+
+  const handleDiscard = () => {
+    if (confirm('Discard this recording? It has not been sent and cannot be recovered.')) {
+      discard(entry.id);
+    }
+  };
+
+  return (
+    <div className="flex justify-end">
+      <div className="max-w-[80%]">
+        <div className="flex items-center justify-end mb-1">
+          <span className="text-xs text-gray-500">
+            {formatDate(entry.createdAt)}
+          </span>
+        </div>
+
+        <div className="rounded-lg bg-primary-50 border border-primary-100 p-3 flex items-center gap-3">
+          <div className="text-sm font-medium text-gray-700">
+            {formatDuration(entry.duration)}
+          </div>
+
+          {entry.status === 'sending' && (
+            <div className="flex items-center text-xs text-gray-500">
+              <Loading size={14} className="m-0 mr-1 w-auto" />
+              <span>Sending…</span>
+            </div>
+          )}
+
+          {entry.status === 'pending' && (
+            <div className="flex items-center text-xs text-gray-500">
+              <CloudOff className="h-4 w-4 mr-1" />
+              <span>{navigator.onLine ? 'Queued' : 'Waiting for connection'}</span>
+            </div>
+          )}
+
+          {entry.status === 'failed' && (
+            <div className="flex items-center text-xs text-error-700" title={entry.lastError ?? undefined}>
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              <span>Not sent</span>
+            </div>
+          )}
+
+          {entry.status === 'rejected' && (
+            <div className="flex items-center text-xs text-error-700">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              <span>Can't be sent</span>
+            </div>
+          )}
+
+          {entry.status !== 'sending' && (
+            <div className="flex items-center space-x-2 ml-auto">
+              <button
+                type="button"
+                onClick={() => retry(entry.id)}
+                className="inline-flex items-center text-xs font-medium text-primary-600 hover:text-primary-700"
+              >
+                <RotateCw className="h-4 w-4 mr-1" />
+                Retry
+              </button>
+
+              <button
+                type="button"
+                onClick={handleDiscard}
+                className="inline-flex items-center text-gray-400 hover:text-gray-600"
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Discard recording</span>
+              </button>
+            </div>
+          )}
+        </div>
+
+        {entry.status === 'rejected' && entry.lastError && (
+          <p className="mt-1 text-right text-xs text-error-700">
+            {entry.lastError}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutboxMessage;
@@ -0,0 +1,38 @@
+import { Check, CheckCheck } from 'lucide-react';
+import { formatDate } from '../../lib/utils';
+
+interface Reader {
+  name: string;
+  readAt: string;
+}
+
+interface ReadReceiptProps {
+  readers: Reader[];
+  // With more than one other person it matters who has seen it
+  showNames: boolean;
+}
+
+const ReadReceipt = ({ readers, showNames }: ReadReceiptProps) => {
+  if (readers.length === 0) {
+    return (
+      <p className="mt-1 flex items-center justify-end gap-1 text-xs text-gray-400">
+        <Check size={12} aria-hidden="true" />
+        Sent
+      </p>
+    );
+  }
+
+  const lastReadAt = readers.reduce((latest, reader) => (reader.readAt > latest ? reader.readAt : latest), readers[0].readAt);
+
+  return (
+    <p
+      className="mt-1 flex items-center justify-end gap-1 text-xs text-primary-600"
+      title={readers.map(reader => `${reader.name}, ${formatDate(reader.readAt)}`).join('\n')}
+    >
+      <CheckCheck size={12} aria-hidden="true" />
+      {showNames ? `Seen by ${readers.map(reader => reader.name).join(', ')}` : `Seen ${formatDate(lastReadAt)}`}
+    </p>
+  );
+};
+
+export default ReadReceipt;
@@ -0,0 +1,23 @@
+import { formatDuration } from '../../lib/utils';
+
+interface RecordingCountdownProps {
+  recordingTime: number;
+  maxDuration: number;
+}
+
+// How long before the automatic stop the warning appears
+const WARNING_SECONDS = 30;
+
+const RecordingCountdown = ({ recordingTime, maxDuration }: RecordingCountdownProps) => {
+  const remaining = Math.max(0, Math.ceil(maxDuration - recordingTime));
+  
+  if (remaining > WARNING_SECONDS) return null;
+  
+  return (
+    <span role="status" className="ml-2 text-xs font-medium text-warning-700">
+      Stops in {formatDuration(remaining)}
+    </span>
+  );
+};
+
+export default RecordingCountdown;
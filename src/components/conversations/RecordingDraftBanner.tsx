@@ -0,0 +1,76 @@
+import { FileAudio, Mic, Eye, Send, Trash2 } from 'lucide-react';
+import { formatDate, formatDuration } from '../../lib/utils';
+import type { RecordingDraft } from '../../stores/draftStore';
+
+interface RecordingDraftBannerProps {
+  draft: RecordingDraft;
+  isBusy: boolean;
+  onResume: () => void;
+  onReview: () => void;
+  onSend: () => void;
+  onDiscard: () => void;
+}
+
+const formatDraftTime = (createdAt: string) => {
+  const date = new Date(createdAt);
+  if (date.toDateString() !== new Date().toDateString()) {
+    return formatDate(createdAt);
+  }
+  return new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: 'numeric', hour12: true }).format(date);
+};
+
+const RecordingDraftBanner = ({ draft, isBusy, onResume, onReview, onSend, onDiscard }: RecordingDraftBannerProps) => {
+  return (
+    <div className="mb-3 rounded-lg border border-warning-100 bg-warning-50 px-3 py-2 flex flex-wrap items-center gap-2">
+      <FileAudio className="h-4 w-4 text-warning-700" />
+      <span className="text-sm text-gray-700">
+        You have an unsent recording from {formatDraftTime(draft.createdAt)}
+        <span className="text-gray-500"> ({formatDuration(draft.duration ?? draft.elapsedMs / 1000)})</span>
+      </span>
+      
+      <div className="ml-auto flex items-center space-x-3">
+        <button
+          type="button"
+          onClick={onResume}
+          disabled={isBusy}
+          className="inline-flex items-center text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+        >
+          <Mic className="h-4 w-4 mr-1" />
+          Resume
+        </button>
+        
+        <button
+          type="button"
+          onClick={onReview}
+          disabled={isBusy}
+          className="inline-flex items-center text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+        >
+          <Eye className="h-4 w-4 mr-1" />
+          Review
+        </button>
+        
+        <button
+          type="button"
+          onClick={onSend}
+          disabled={isBusy}
+          className="inline-flex items-center text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+        >
+          <Send className="h-4 w-4 mr-1" />
+          Send
+        </button>
+        
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={isBusy}
+          className="inline-flex items-center text-gray-400 hover:text-gray-600 disabled:opacity-50"
+        >
+          <Trash2 className="h-4 w-4" />
+          <span className="sr-only">Discard recording</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingDraftBanner;
@@ -0,0 +1,351 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Play, Pause, Trash2, Send, Sparkles } from 'lucide-react';
+import { computePeaks, computeWaveformPeaks, decodeAudioBlob, encodeWav, sliceAudioBuffer } from '../../lib/audio';
+import { cleanupRecording } from '../../lib/audioCleanup';
+import { parseSettings } from '../../lib/settings';
+import { formatDuration } from '../../lib/utils';
+import { useAuthStore } from '../../stores/authStore';
+import Loading from '../ui/Loading';
+
+interface RecordingReviewProps {
+  audioBlob: Blob;
+  // Timer-based length, used when the recording cannot be decoded for preview
+  recordedDuration: number;
+  isSending: boolean;
+  onDiscard: () => void;
+  onSend: (blob: Blob, duration: number, waveformPeaks: number[] | null) => void;
+}
+
+const WAVEFORM_BARS = 80;
+const MIN_TRIMMED_LENGTH = 0.5; // seconds
+const TRIM_TOLERANCE = 0.05; // seconds
+const KEYBOARD_STEP = 0.1; // seconds
+
+type TrimHandle = 'start' | 'end';
+
+interface ProcessedAudio {
+  buffer: AudioBuffer;
+  blob: Blob;
+}
+
+const RecordingReview = ({ audioBlob, recordedDuration, isSending, onDiscard, onSend }: RecordingReviewProps) => {
+  const { profile } = useAuthStore();
+  const [original, setOriginal] = useState<AudioBuffer | null>(null);
+  const [cleaned, setCleaned] = useState<ProcessedAudio | null>(null);
+  const [useCleaned, setUseCleaned] = useState(() => parseSettings(profile?.settings).audio_cleanup);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const trimRef = useRef({ start: 0, end: 0 });
+  trimRef.current = { start: trimStart, end: trimEnd };
+
+  // The version currently being previewed, and what will be sent
+  const buffer = useCleaned && cleaned ? cleaned.buffer : original;
+  const activeBlob = useCleaned && cleaned ? cleaned.blob : audioBlob;
+  const peaks = useMemo(() => (buffer ? computePeaks(buffer, WAVEFORM_BARS) : []), [buffer]);
+
+  const audioSrc = useMemo(() => URL.createObjectURL(activeBlob), [activeBlob]);
+
+  useEffect(() => {
+    return () => URL.revokeObjectURL(audioSrc);
+  }, [audioSrc]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setOriginal(null);
+    setCleaned(null);
+    setError(null);
+
+    decodeAudioBlob(audioBlob)
+      .then(decoded => {
+        if (!cancelled) setOriginal(decoded);
+      })
+      .catch(error => {
+        console.error('Error decoding recording:', error);
+        if (!cancelled) setError('Preview is not available for this recording');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioBlob]);
+
+  // Run the cleanup chain the first time the cleaned version is requested
+  useEffect(() => {
+    if (!useCleaned || !original || cleaned) return;
+
+    let cancelled = false;
+    setIsCleaning(true);
+
+    cleanupRecording(original)
+      .then(async processed => {
+        const blob = await encodeWav(processed);
+        if (!cancelled) setCleaned({ buffer: processed, blob });
+      })
+      .catch(error => {
+        console.error('Error cleaning up recording:', error);
+        if (!cancelled) setUseCleaned(false);
+      })
+      .finally(() => {
+        if (!cancelled) setIsCleaning(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [useCleaned, original, cleaned]);
+
+  // Switching between versions starts over with the full length
+  useEffect(() => {
+    setTrimStart(0);
+    setTrimEnd(buffer?.duration ?? 0);
+    setCurrentTime(0);
+  }, [buffer]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    // Keep playback inside the trimmed range
+    const handleTimeUpdate = () => {
+      if (audio.currentTime >= trimRef.current.end) {
+        audio.pause();
+        audio.currentTime = trimRef.current.start;
+      }
+      setCurrentTime(audio.currentTime);
+    };
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
+
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+
+    return () => {
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+    };
+  }, [audioSrc]);
+
+  const duration = buffer?.duration ?? 0;
+  const isTrimmed = !!buffer && (trimStart > TRIM_TOLERANCE || trimEnd < duration - TRIM_TOLERANCE);
+  const toPercent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
+
+  const togglePlayPause = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (isPlaying) {
+      audio.pause();
+      return;
+    }
+
+    if (audio.currentTime < trimStart || audio.currentTime >= trimEnd) {
+      audio.currentTime = trimStart;
+    }
+    audio.play().catch(error => {
+      console.error('Playback failed:', error);
+    });
+  };
+
+  const moveHandle = (handle: TrimHandle, time: number) => {
+    const { start, end } = trimRef.current;
+
+    if (handle === 'start') {
+      setTrimStart(Math.max(0, Math.min(time, end - MIN_TRIMMED_LENGTH)));
+    } else {
+      setTrimEnd(Math.min(duration, Math.max(time, start + MIN_TRIMMED_LENGTH)));
+    }
+  };
+
+  const startDrag = (handle: TrimHandle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    audioRef.current?.pause();
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!waveformRef.current) return;
+      const rect = waveformRef.current.getBoundingClientRect();
+      const position = Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width));
+      moveHandle(handle, position * duration);
+    };
+
+    const handlePointerUp = () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+  };
+
+  const handleKeyDown = (handle: TrimHandle) => (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const value = handle === 'start' ? trimStart : trimEnd;
+
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      moveHandle(handle, value - KEYBOARD_STEP);
+    } else if (e.key === 'ArrowRight' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveHandle(handle, value + KEYBOARD_STEP);
+    }
+  };
+
+  const handleSend = async () => {
+    audioRef.current?.pause();
+
+    if (!buffer) {
+      onSend(audioBlob, recordedDuration, null);
+      return;
+    }
+
+    if (!isTrimmed) {
+      onSend(activeBlob, buffer.duration, computeWaveformPeaks(buffer));
+      return;
+    }
+
+    setIsEncoding(true);
+
+    try {
+      const trimmed = sliceAudioBuffer(buffer, trimStart, trimEnd);
+      const wav = await encodeWav(trimmed);
+      onSend(wav, trimmed.duration, computeWaveformPeaks(trimmed));
+    } catch (error) {
+      console.error('Error trimming recording:', error);
+      alert('Failed to trim the recording. Please try again.');
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  const renderHandle = (handle: TrimHandle) => {
+    const value = handle === 'start' ? trimStart : trimEnd;
+
+    return (
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label={handle === 'start' ? 'Trim start' : 'Trim end'}
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration * 10) / 10}
+        aria-valuenow={Math.round(value * 10) / 10}
+        aria-valuetext={formatDuration(value)}
+        onPointerDown={startDrag(handle)}
+        onKeyDown={handleKeyDown(handle)}
+        className="absolute inset-y-0 -ml-1.5 w-3 cursor-ew-resize rounded bg-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-300"
+        style={{ left: `${toPercent(value)}%` }}
+      />
+    );
+  };
+
+  return (
+    <div className="flex-1 space-y-2">
+      <audio ref={audioRef} src={audioSrc} preload="auto" />
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={togglePlayPause}
+          className="flex-shrink-0 h-10 w-10 rounded-full bg-primary-100 flex items-center justify-center text-primary-700 hover:bg-primary-200"
+        >
+          {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+          <span className="sr-only">{isPlaying ? 'Pause preview' : 'Play preview'}</span>
+        </button>
+
+        {buffer ? (
+          <div ref={waveformRef} className="relative flex-1 h-12 select-none touch-none">
+            <div className="absolute inset-0 flex items-center gap-px">
+              {peaks.map((peak, i) => {
+                const barTime = ((i + 0.5) / peaks.length) * duration;
+                const isKept = barTime >= trimStart && barTime <= trimEnd;
+
+                return (
+                  <div
+                    key={i}
+                    className={`flex-1 rounded-full ${isKept ? 'bg-primary-500' : 'bg-gray-300'}`}
+                    style={{ height: `${Math.max(8, peak * 100)}%` }}
+                  />
+                );
+              })}
+            </div>
+
+            <div
+              className="absolute inset-y-0 w-0.5 bg-gray-900 pointer-events-none"
+              style={{ left: `${toPercent(currentTime)}%` }}
+            />
+
+            {renderHandle('start')}
+            {renderHandle('end')}
+          </div>
+        ) : (
+          <div className="flex-1 flex items-center text-sm text-gray-500">
+            {error ?? <Loading size={20} className="m-0" />}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="text-sm font-medium text-gray-700">
+            {formatDuration(buffer ? trimEnd - trimStart : recordedDuration)}
+            {isTrimmed && (
+              <span className="ml-1 text-xs font-normal text-gray-500">
+                (trimmed from {formatDuration(duration)})
+              </span>
+            )}
+          </div>
+
+          {original && (
+            <div className="inline-flex rounded-md border border-gray-200 text-xs font-medium" role="group" aria-label="Audio version">
+              <button
+                type="button"
+                onClick={() => setUseCleaned(false)}
+                aria-pressed={!useCleaned}
+                className={`px-2 py-1 rounded-l-md ${!useCleaned ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                Original
+              </button>
+              <button
+                type="button"
+                onClick={() => setUseCleaned(true)}
+                aria-pressed={useCleaned}
+                disabled={isCleaning}
+                className={`inline-flex items-center px-2 py-1 rounded-r-md ${useCleaned ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {isCleaning ? <Loading size={12} className="m-0 mr-1 w-auto" /> : <Sparkles className="h-3 w-3 mr-1" />}
+                Cleaned
+              </button>
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={onDiscard}
+            className="inline-flex items-center text-gray-500 hover:text-gray-700"
+          >
+            <Trash2 className="h-5 w-5" />
+            <span className="sr-only">Discard recording</span>
+          </button>
+        </div>
+
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={isSending || isEncoding || isCleaning}
+          className="inline-flex items-center rounded-full bg-primary-600 p-3 text-white shadow-sm hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSending || isEncoding ? <Loading size={20} className="m-0" /> : <Send className="h-5 w-5" />}
+          <span className="sr-only">Send message</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingReview;
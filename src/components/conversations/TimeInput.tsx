@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { formatDuration, parseDuration } from '../../lib/utils';
+
+interface TimeInputProps {
+  value: number;
+  max: number;
+  label: string;
+  onChange: (value: number) => void;
+}
+
+// Edits a time as m:ss text, applying it once the user leaves the field
+const TimeInput = ({ value, max, label, onChange }: TimeInputProps) => {
+  const [text, setText] = useState(formatDuration(value));
+
+  useEffect(() => {
+    setText(formatDuration(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseDuration(text);
+
+    if (parsed === null) {
+      setText(formatDuration(value));
+      return;
+    }
+
+    const clamped = Math.min(parsed, max);
+    setText(formatDuration(clamped));
+    onChange(clamped);
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="numeric"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          commit();
+        }
+      }}
+      aria-label={label}
+      className="w-14 rounded-md border-gray-300 px-2 py-1 text-xs tabular-nums focus:border-primary-500 focus:ring-primary-500"
+    />
+  );
+};
+
+export default TimeInput;
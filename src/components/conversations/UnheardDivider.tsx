@@ -0,0 +1,25 @@
+import { PlayCircle } from 'lucide-react';
+
+interface UnheardDividerProps {
+  count: number;
+  onPlayAll: () => void;
+}
+
+const UnheardDivider = ({ count, onPlayAll }: UnheardDividerProps) => {
+  return (
+    <div className="flex items-center gap-3">
+      <div className="h-px flex-1 bg-primary-200" />
+      <button
+        type="button"
+        onClick={onPlayAll}
+        className="inline-flex items-center rounded-full bg-primary-50 px-3 py-1 text-xs font-medium text-primary-700 hover:bg-primary-100"
+      >
+        <PlayCircle className="h-4 w-4 mr-1" />
+        Play {count} unheard {count === 1 ? 'message' : 'messages'} from here
+      </button>
+      <div className="h-px flex-1 bg-primary-200" />
+    </div>
+  );
+};
+
+export default UnheardDivider;
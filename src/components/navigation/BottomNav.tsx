@@ -1,13 +1,16 @@
 import { Link, useLocation } from 'react-router-dom';
-import { Home, MessageSquare, FolderHeart, Users } from 'lucide-react';
+import { Home, MessageSquare, FolderHeart, Bookmark, Users } from 'lucide-react';
+import { getTotalUnread, useReadStore } from '../../stores/readStore';
 
 const BottomNav = () => {
   const location = useLocation();
+  const unreadCount = useReadStore(state => getTotalUnread(state.unread));
   
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: Home },
-    { name: 'Messages', href: '/messages', icon: MessageSquare },
+    { name: 'Messages', href: '/conversations', icon: MessageSquare },
     { name: 'Folders', href: '/folders', icon: FolderHeart },
+    { name: 'Bookmarks', href: '/bookmarks', icon: Bookmark },
     { name: 'Contacts', href: '/contacts', icon: Users },
   ];
   
@@ -16,7 +19,7 @@ const BottomNav = () => {
       <div className="max-w-screen-xl mx-auto px-4">
         <div className="flex justify-around">
           {navigation.map((item) => {
-            const isActive = location.pathname === item.href;
+            const isActive = location.pathname.startsWith(item.href);
             
             return (
               <Link
@@ -28,7 +31,15 @@ const BottomNav = () => {
                     : 'text-gray-500 hover:text-gray-900'
                 }`}
               >
-                <item.icon className="h-6 w-6" />
+                <span className="relative">
+                  <item.icon className="h-6 w-6" />
+                  {item.href === '/conversations' && unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-2 h-4 min-w-[1rem] rounded-full bg-accent-500 px-1 text-[10px] font-medium leading-4 text-white">
+                      {unreadCount}
+                      <span className="sr-only"> unread</span>
+                    </span>
+                  )}
+                </span>
                 <span className="mt-1 text-xs">{item.name}</span>
               </Link>
             );
@@ -1,6 +1,7 @@
 import { Link, useLocation } from 'react-router-dom';
 import { Square as MicSquare, Home, MessageSquare, FolderHeart, X, Users, UserCog } from 'lucide-react';
 import { useAuthStore } from '../../stores/authStore';
+import { getTotalUnread, useReadStore } from '../../stores/readStore';
 import { cn } from '../../lib/utils';
 
 interface SidebarProps {
@@ -11,6 +12,7 @@ interface SidebarProps {
 const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
   const location = useLocation();
   const { profile } = useAuthStore();
+  const unreadCount = useReadStore(state => getTotalUnread(state.unread));
   
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: Home },
@@ -65,13 +67,19 @@ const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
               to={item.href}
               className={cn(
                 "flex items-center px-2 py-2 text-base font-medium rounded-md transition-colors",
-                location.pathname === item.href
+                location.pathname.startsWith(item.href)
                   ? "bg-primary-800 text-white"
                   : "text-primary-100 hover:bg-primary-800 hover:text-white"
               )}
             >
               <item.icon className="mr-3 h-5 w-5 flex-shrink-0" />
               {item.name}
+              {item.href === '/conversations' && unreadCount > 0 && (
+                <span className="ml-auto rounded-full bg-accent-500 px-2 py-0.5 text-xs font-medium text-white">
+                  {unreadCount}
+                  <span className="sr-only"> unread</span>
+                </span>
+              )}
             </Link>
           ))}
         </nav>
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+
+interface InputLevel {
+  // Smoothed RMS level, 0–1
+  level: number;
+  // No usable signal for a while: muted track, hardware mute switch or dead mic
+  isSilent: boolean;
+  // Samples recently hit full scale
+  isClipping: boolean;
+}
+
+const SAMPLE_INTERVAL_MS = 100;
+const SILENCE_RMS = 0.003;
+const SILENCE_WARNING_MS = 3_000;
+const CLIP_SAMPLE = 0.99;
+const CLIP_HOLD_MS = 1_500;
+
+const QUIET: InputLevel = { level: 0, isSilent: false, isClipping: false };
+
+/**
+ * Monitors a microphone stream for the level meter and for silent or
+ * clipping input. Pass `null` to stop monitoring.
+ */
+export function useInputLevel(stream: MediaStream | null): InputLevel {
+  const [inputLevel, setInputLevel] = useState<InputLevel>(QUIET);
+
+  useEffect(() => {
+    if (!stream) {
+      setInputLevel(QUIET);
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    const track = stream.getAudioTracks()[0];
+    let level = 0;
+    let lastSoundAt = Date.now();
+    let lastClipAt = 0;
+
+    const interval = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+
+      let sum = 0;
+      let peak = 0;
+      for (const sample of samples) {
+        sum += sample * sample;
+        peak = Math.max(peak, Math.abs(sample));
+      }
+
+      const rms = Math.sqrt(sum / samples.length);
+      const now = Date.now();
+      // Rise quickly, fall slowly, like a hardware meter
+      level = rms > level ? rms : level * 0.85 + rms * 0.15;
+
+      if (rms > SILENCE_RMS) lastSoundAt = now;
+      if (peak >= CLIP_SAMPLE) lastClipAt = now;
+
+      const isMuted = !!track && (track.muted || !track.enabled);
+
+      setInputLevel({
+        // Speech RMS rarely goes above ~0.3, so scale it up for display
+        level: Math.min(1, level * 3),
+        isSilent: isMuted || now - lastSoundAt > SILENCE_WARNING_MS,
+        isClipping: now - lastClipAt < CLIP_HOLD_MS,
+      });
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      audioContext.close();
+    };
+  }, [stream]);
+
+  return inputLevel;
+}
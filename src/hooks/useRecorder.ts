@@ -0,0 +1,451 @@
+import { useEffect, useRef, useState } from 'react';
+import { createChunkUploader, removeRecordingFolder, resumeChunkUploader, type ChunkUploader, type StreamedRecording } from '../lib/chunkedUpload';
+import { createMediaRecorder, stitchRecordings } from '../lib/recordingFormat';
+import { openMicrophone } from '../lib/microphone';
+import { useAuthStore } from '../stores/authStore';
+import { draftId, useDraftStore, type RecordingDraft } from '../stores/draftStore';
+
+/**
+ * idle → recording ⇄ paused → processing → recorded → (reset) idle
+ */
+export type RecorderStatus = 'idle' | 'recording' | 'paused' | 'processing' | 'recorded';
+
+interface UseRecorderOptions {
+  // Recording stops automatically once this many seconds have been captured
+  maxDuration?: number;
+  // Conversation to upload chunks to while recording, so long messages send instantly
+  uploadChunksTo?: string;
+  // Conversation to keep a crash-safe draft of the recording for
+  saveDraftFor?: string;
+}
+
+const TIMER_INTERVAL_MS = 250;
+const CHUNK_TIMESLICE_MS = 5_000;
+
+function stopRecorder(recorder: MediaRecorder): Promise<void> {
+  return new Promise(resolve => {
+    if (recorder.state === 'inactive') {
+      resolve();
+      return;
+    }
+
+    recorder.addEventListener('stop', () => resolve(), { once: true });
+    recorder.stop();
+  });
+}
+
+/**
+ * Shared recording state machine used by every recorder UI. Paused time is
+ * excluded from `recordingTime`. Browsers that cannot pause a MediaRecorder
+ * record each stretch as a separate segment, stitched together on stop.
+ */
+export function useRecorder({ maxDuration, uploadChunksTo, saveDraftFor }: UseRecorderOptions = {}) {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [recordingTime, setRecordingTime] = useState(0);
+  // Exact captured length in seconds, known once recording has stopped
+  const [recordedDuration, setRecordedDuration] = useState(0);
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  // Same as `audioBlob`, for callers that run before the next render
+  const audioBlobRef = useRef<Blob | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+
+  const statusRef = useRef<RecorderStatus>('idle');
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const segmentsRef = useRef<Blob[][]>([]);
+  const pendingStopsRef = useRef<Promise<void>[]>([]);
+  const mimeTypeRef = useRef('');
+  const elapsedBeforeSegmentRef = useRef(0);
+  const segmentStartRef = useRef(0);
+  const timerRef = useRef<number | null>(null);
+  const uploaderRef = useRef<ChunkUploader | null>(null);
+  const maxDurationRef = useRef(maxDuration);
+  maxDurationRef.current = maxDuration;
+
+  // The draft being written for the current recording, if drafts are enabled
+  const draftRef = useRef<RecordingDraft | null>(null);
+
+  const transition = (next: RecorderStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  };
+
+  const getElapsedMs = () => {
+    const running = statusRef.current === 'recording' ? Date.now() - segmentStartRef.current : 0;
+    return elapsedBeforeSegmentRef.current + running;
+  };
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const acquireStream = async () => {
+    const mediaStream = await openMicrophone();
+    streamRef.current = mediaStream;
+    setStream(mediaStream);
+    return mediaStream;
+  };
+
+  const releaseStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setStream(null);
+  };
+
+  const setRecording = (blob: Blob | null) => {
+    audioBlobRef.current = blob;
+    setAudioBlob(blob);
+  };
+
+  const discardUpload = () => {
+    uploaderRef.current?.abort();
+    uploaderRef.current = null;
+  };
+
+  const beginDraft = (createdAt = new Date().toISOString()) => {
+    const senderId = useAuthStore.getState().user?.id;
+    if (!saveDraftFor || !senderId) {
+      draftRef.current = null;
+      return;
+    }
+
+    draftRef.current = {
+      id: draftId(senderId, saveDraftFor),
+      conversationId: saveDraftFor,
+      senderId,
+      createdAt,
+      updatedAt: createdAt,
+      status: 'recording',
+      mimeType: mimeTypeRef.current,
+      segments: [],
+      elapsedMs: 0,
+      streamedRecordingId: null,
+      blob: null,
+      duration: null,
+    };
+  };
+
+  const saveDraft = (recorded?: { blob: Blob; duration: number }) => {
+    if (!draftRef.current) return;
+
+    draftRef.current = {
+      ...draftRef.current,
+      updatedAt: new Date().toISOString(),
+      status: recorded ? 'recorded' : 'recording',
+      mimeType: mimeTypeRef.current,
+      segments: segmentsRef.current.map(chunks => [...chunks]),
+      elapsedMs: recorded ? recorded.duration * 1000 : getElapsedMs(),
+      streamedRecordingId: uploaderRef.current?.recordingId ?? null,
+      blob: recorded?.blob ?? null,
+      duration: recorded?.duration ?? null,
+    };
+    useDraftStore.getState().save(draftRef.current);
+  };
+
+  const startSegment = (mediaStream: MediaStream) => {
+    // Streamed chunks only make sense as one continuous file
+    if (segmentsRef.current.length > 0) {
+      discardUpload();
+    }
+
+    const recorder = createMediaRecorder(mediaStream);
+    const uploader = uploaderRef.current;
+    const chunks: Blob[] = [];
+    segmentsRef.current.push(chunks);
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        chunks.push(e.data);
+        uploader?.add(e.data);
+        saveDraft();
+      }
+    };
+
+    // Deliver data periodically when it is streamed or saved as a draft
+    recorder.start(uploader || draftRef.current ? CHUNK_TIMESLICE_MS : undefined);
+    recorderRef.current = recorder;
+    mimeTypeRef.current = recorder.mimeType;
+    segmentStartRef.current = Date.now();
+  };
+
+  // Joins the captured segments, falling back to the raw chunks so audio is never lost
+  const assembleRecording = async (): Promise<Blob> => {
+    try {
+      // A single segment re-encoded for playback (e.g. WebM as WAV) is still
+      // the same audio as the chunks streamed in the recorder's own format
+      const recorded = await stitchRecordings(segmentsRef.current, mimeTypeRef.current);
+      return recorded.blob;
+    } catch (error) {
+      console.error('Error processing recording:', error);
+      discardUpload();
+      return new Blob(segmentsRef.current.flat(), { type: mimeTypeRef.current });
+    }
+  };
+
+  const stop = async () => {
+    if (statusRef.current !== 'recording' && statusRef.current !== 'paused') return;
+
+    const elapsedMs = getElapsedMs();
+    elapsedBeforeSegmentRef.current = elapsedMs;
+    clearTimer();
+    setRecordingTime(Math.floor(elapsedMs / 1000));
+    setRecordedDuration(elapsedMs / 1000);
+    transition('processing');
+
+    if (recorderRef.current) {
+      pendingStopsRef.current.push(stopRecorder(recorderRef.current));
+      recorderRef.current = null;
+    }
+
+    await Promise.all(pendingStopsRef.current);
+    pendingStopsRef.current = [];
+    releaseStream();
+
+    const blob = await assembleRecording();
+
+    // The recording may have been discarded while it was being processed
+    if ((statusRef.current as RecorderStatus) !== 'processing') return;
+
+    setRecording(blob);
+    saveDraft({ blob, duration: elapsedMs / 1000 });
+    transition('recorded');
+  };
+
+  const startTimer = () => {
+    clearTimer();
+    timerRef.current = window.setInterval(() => {
+      const elapsedMs = getElapsedMs();
+      setRecordingTime(Math.floor(elapsedMs / 1000));
+
+      if (maxDurationRef.current && elapsedMs >= maxDurationRef.current * 1000) {
+        stop();
+      }
+    }, TIMER_INTERVAL_MS);
+  };
+
+  const start = async () => {
+    if (statusRef.current !== 'idle') return;
+
+    const mediaStream = await acquireStream();
+
+    segmentsRef.current = [];
+    pendingStopsRef.current = [];
+    elapsedBeforeSegmentRef.current = 0;
+    setRecording(null);
+    setRecordingTime(0);
+    setRecordedDuration(0);
+
+    discardUpload();
+    if (uploadChunksTo) {
+      uploaderRef.current = createChunkUploader(uploadChunksTo);
+    }
+    beginDraft();
+
+    startSegment(mediaStream);
+    transition('recording');
+    startTimer();
+  };
+
+  // Carries on with the chunks a draft streamed before it was interrupted, so
+  // only what never made it is uploaded; they are deleted instead if they
+  // can't be used for the recording any more
+  const resumeUpload = async (draft: RecordingDraft) => {
+    const recordingId = draft.streamedRecordingId;
+    if (!recordingId) return;
+
+    if (uploadChunksTo !== draft.conversationId || draft.segments.length !== 1) {
+      removeRecordingFolder(draft.conversationId, recordingId);
+      return;
+    }
+
+    const uploader = await resumeChunkUploader(draft.conversationId, recordingId, draft.segments[0]);
+
+    if (statusRef.current !== 'processing') {
+      uploader.abort();
+      return;
+    }
+
+    uploaderRef.current = uploader;
+  };
+
+  /**
+   * Picks up a saved draft, either recording on from where it ended or going
+   * straight to the review step. Resolves with the recording when reviewing.
+   */
+  const restoreDraft = async (draft: RecordingDraft, mode: 'resume' | 'review') => {
+    if (statusRef.current !== 'idle') return null;
+
+    const mediaStream = mode === 'resume' ? await acquireStream() : null;
+
+    discardUpload();
+    segmentsRef.current = draft.segments.map(chunks => [...chunks]);
+    pendingStopsRef.current = [];
+    mimeTypeRef.current = draft.mimeType;
+    elapsedBeforeSegmentRef.current = draft.elapsedMs;
+    setRecording(null);
+    setRecordingTime(Math.floor(draft.elapsedMs / 1000));
+    setRecordedDuration(draft.elapsedMs / 1000);
+    beginDraft(draft.createdAt);
+
+    if (mediaStream) {
+      // The new audio becomes another segment, stitched on stop, so chunks
+      // streamed earlier no longer make up the whole recording
+      if (draft.streamedRecordingId) {
+        removeRecordingFolder(draft.conversationId, draft.streamedRecordingId);
+      }
+
+      startSegment(mediaStream);
+      transition('recording');
+      startTimer();
+      return null;
+    }
+
+    transition('processing');
+    await resumeUpload(draft);
+
+    const duration = draft.duration ?? draft.elapsedMs / 1000;
+    const blob = draft.blob ?? await assembleRecording();
+
+    if ((statusRef.current as RecorderStatus) !== 'processing') return null;
+
+    setRecording(blob);
+    setRecordedDuration(duration);
+    saveDraft({ blob, duration });
+    transition('recorded');
+    return { blob, duration };
+  };
+
+  const pause = () => {
+    const recorder = recorderRef.current;
+    if (statusRef.current !== 'recording' || !recorder) return;
+
+    elapsedBeforeSegmentRef.current = getElapsedMs();
+    clearTimer();
+
+    try {
+      recorder.pause();
+    } catch {
+      // No pause support: close this segment and start a new one on resume
+      pendingStopsRef.current.push(stopRecorder(recorder));
+      recorderRef.current = null;
+    }
+
+    transition('paused');
+    saveDraft();
+  };
+
+  const resume = () => {
+    if (statusRef.current !== 'paused' || !streamRef.current) return;
+
+    if (recorderRef.current?.state === 'paused') {
+      recorderRef.current.resume();
+      segmentStartRef.current = Date.now();
+    } else {
+      startSegment(streamRef.current);
+    }
+
+    transition('recording');
+    startTimer();
+  };
+
+  const reset = () => {
+    clearTimer();
+
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+    releaseStream();
+    discardUpload();
+
+    // Discarded or sent: the draft is no longer needed
+    if (draftRef.current) {
+      useDraftStore.getState().remove(draftRef.current.conversationId);
+      draftRef.current = null;
+    }
+
+    segmentsRef.current = [];
+    pendingStopsRef.current = [];
+    elapsedBeforeSegmentRef.current = 0;
+    setRecording(null);
+    setRecordingTime(0);
+    setRecordedDuration(0);
+    transition('idle');
+  };
+
+  // Flush the latest audio to the draft when the tab is hidden or the phone
+  // locks, since the page may be killed without further notice
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && recorderRef.current?.state === 'recording') {
+        recorderRef.current.requestData();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  // Release the microphone if the component unmounts mid-recording; the
+  // recording itself is kept as a draft for when the user comes back
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) {
+        clearInterval(timerRef.current);
+      }
+      if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+        recorderRef.current.stop();
+      }
+      streamRef.current?.getTracks().forEach(track => track.stop());
+
+      // Streamed chunks stay with the draft, to be reused when it is restored
+      if (draftRef.current) {
+        useDraftStore.getState().release(draftRef.current);
+      } else {
+        uploaderRef.current?.abort();
+      }
+    };
+  }, []);
+
+  /**
+   * Hands over the chunks streamed during recording if `blob` is the
+   * recording exactly as captured; otherwise (e.g. it was trimmed) they are
+   * deleted and null is returned.
+   */
+  const takeStreamedRecording = async (blob: Blob): Promise<StreamedRecording | null> => {
+    const uploader = uploaderRef.current;
+    uploaderRef.current = null;
+    if (!uploader) return null;
+
+    const streamed = blob === audioBlobRef.current ? await uploader.finish() : null;
+    if (!streamed) {
+      uploader.abort();
+      return null;
+    }
+
+    return { ...streamed, mimeType: mimeTypeRef.current };
+  };
+
+  return {
+    status,
+    isRecording: status === 'recording',
+    isPaused: status === 'paused',
+    isProcessing: status === 'processing',
+    recordingTime,
+    recordedDuration,
+    audioBlob,
+    stream,
+    start,
+    pause,
+    resume,
+    stop,
+    reset,
+    restoreDraft,
+    takeStreamedRecording,
+  };
+}
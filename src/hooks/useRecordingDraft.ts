@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { computeWaveformPeaks, decodeAudioBlob } from '../lib/audio';
+import { removeRecordingFolder } from '../lib/chunkedUpload';
+import { describeMicrophoneError } from '../lib/microphone';
+import { useDraftStore, type RecordingDraft } from '../stores/draftStore';
+
+type RestoreDraft = (
+  draft: RecordingDraft,
+  mode: 'resume' | 'review'
+) => Promise<{ blob: Blob; duration: number } | null>;
+
+type SendRecording = (blob: Blob, duration: number, waveformPeaks: number[] | null) => Promise<void>;
+
+/**
+ * The actions offered for an unsent recording left over in a conversation:
+ * resume recording, review it, send it as is, or discard it.
+ */
+export function useRecordingDraft(conversationId: string, restoreDraft: RestoreDraft, sendRecording: SendRecording) {
+  const draft = useDraftStore(state => state.drafts[conversationId] ?? null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const restore = async (mode: 'resume' | 'review') => {
+    const taken = useDraftStore.getState().take(conversationId);
+    if (!taken) return null;
+
+    try {
+      return await restoreDraft(taken, mode);
+    } catch (error) {
+      // Most likely the microphone was refused; keep offering the draft
+      useDraftStore.getState().release(taken);
+      throw error;
+    }
+  };
+
+  const resume = async () => {
+    try {
+      await restore('resume');
+    } catch (error) {
+      console.error('Error resuming recording:', error);
+      alert(describeMicrophoneError(error));
+    }
+  };
+
+  const review = async () => {
+    setIsBusy(true);
+
+    try {
+      await restore('review');
+    } catch (error) {
+      console.error('Error restoring recording:', error);
+      alert('Failed to open the recording. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const send = async () => {
+    setIsBusy(true);
+
+    try {
+      const recorded = await restore('review');
+      if (!recorded) return;
+
+      let duration = recorded.duration;
+      let waveformPeaks: number[] | null = null;
+      try {
+        const buffer = await decodeAudioBlob(recorded.blob);
+        duration = buffer.duration;
+        waveformPeaks = computeWaveformPeaks(buffer);
+      } catch (error) {
+        console.error('Error decoding recording:', error);
+      }
+
+      await sendRecording(recorded.blob, duration, waveformPeaks);
+    } catch (error) {
+      console.error('Error sending recording:', error);
+      alert('Failed to send the recording. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const discard = () => {
+    if (!confirm('Discard this unsent recording?')) return;
+
+    if (draft?.streamedRecordingId) {
+      removeRecordingFolder(conversationId, draft.streamedRecordingId);
+    }
+    useDraftStore.getState().remove(conversationId);
+  };
+
+  return { draft, isBusy, resume, review, send, discard };
+}
@@ -1,19 +1,33 @@
+import { useEffect } from 'react';
 import { Outlet } from 'react-router-dom';
 import BottomNav from '../components/navigation/BottomNav';
+import MiniPlayer from '../components/conversations/MiniPlayer';
+import { parseSettings } from '../lib/settings';
+import { useAuthStore } from '../stores/authStore';
+import { usePlaybackStore } from '../stores/playbackStore';
 
 const AppLayout = () => {
+  const profile = useAuthStore(state => state.profile);
+  const defaultPlaybackRate = parseSettings(profile?.settings).playback_rate;
+  const hasTrack = usePlaybackStore(state => !!state.track);
+  
+  useEffect(() => {
+    usePlaybackStore.getState().setPlaybackRate(defaultPlaybackRate);
+  }, [defaultPlaybackRate]);
+  
   return (
     <div className="min-h-screen bg-gray-50">
-      <main className="pb-20">
+      <main className={hasTrack ? 'pb-36' : 'pb-20'}>
         <div className="py-6">
           <div className="mx-auto max-w-7xl px-4 sm:px-6 md:px-8">
             <Outlet />
           </div>
         </div>
       </main>
+      <MiniPlayer />
       <BottomNav />
     </div>
   );
 };
 
-export default AppLayout;
\ No newline at end of file
+export default AppLayout;
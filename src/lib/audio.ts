@@ -0,0 +1,156 @@
+// Helpers for working with recorded audio in the browser via Web Audio.
+
+export const WAV_MIME_TYPE = 'audio/wav';
+
+// Speech only needs ~8 kHz of bandwidth, so 16 kHz keeps WAV files small
+const DEFAULT_WAV_SAMPLE_RATE = 16000;
+
+// Enough detail for a message-sized waveform while keeping the stored JSON small
+const STORED_PEAK_COUNT = 100;
+
+export async function decodeAudioBlob(blob: Blob): Promise<AudioBuffer> {
+  const arrayBuffer = await blob.arrayBuffer();
+  const audioContext = new AudioContext();
+
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close();
+  }
+}
+
+/**
+ * Mixes the buffer down to mono and resamples it to `sampleRate`.
+ */
+export async function renderMono(buffer: AudioBuffer, sampleRate = buffer.sampleRate): Promise<AudioBuffer> {
+  if (buffer.numberOfChannels === 1 && buffer.sampleRate === sampleRate) {
+    return buffer;
+  }
+
+  const length = Math.max(1, Math.ceil(buffer.duration * sampleRate));
+  const offline = new OfflineAudioContext(1, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+
+  return offline.startRendering();
+}
+
+/**
+ * Encodes an AudioBuffer as 16-bit PCM mono WAV, which every browser can play.
+ */
+export async function encodeWav(buffer: AudioBuffer, sampleRate = DEFAULT_WAV_SAMPLE_RATE): Promise<Blob> {
+  const mono = await renderMono(buffer, sampleRate);
+  const samples = mono.getChannelData(0);
+
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true); // byte rate
+  view.setUint16(32, bytesPerSample, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    offset += bytesPerSample;
+  }
+
+  return new Blob([view], { type: WAV_MIME_TYPE });
+}
+
+/**
+ * Joins buffers end to end into a single mono buffer at the first buffer's
+ * sample rate.
+ */
+export async function concatAudioBuffers(buffers: AudioBuffer[]): Promise<AudioBuffer> {
+  const sampleRate = buffers[0].sampleRate;
+  const monoBuffers = await Promise.all(buffers.map(buffer => renderMono(buffer, sampleRate)));
+  const length = monoBuffers.reduce((total, buffer) => total + buffer.length, 0);
+
+  const result = new AudioBuffer({ numberOfChannels: 1, length: Math.max(1, length), sampleRate });
+  const output = result.getChannelData(0);
+
+  let offset = 0;
+  for (const buffer of monoBuffers) {
+    output.set(buffer.getChannelData(0), offset);
+    offset += buffer.length;
+  }
+
+  return result;
+}
+
+/**
+ * Returns `count` peak amplitudes (0–1) across the buffer, for drawing a
+ * waveform overview.
+ */
+export function computePeaks(buffer: AudioBuffer, count: number): number[] {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const blockSize = Math.max(1, Math.floor(buffer.length / count));
+  const peaks: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const start = i * blockSize;
+    const end = Math.min(start + blockSize, buffer.length);
+    let peak = 0;
+
+    for (const data of channels) {
+      for (let j = start; j < end; j++) {
+        const value = Math.abs(data[j]);
+        if (value > peak) peak = value;
+      }
+    }
+
+    peaks.push(peak);
+  }
+
+  const max = Math.max(...peaks, 0.01);
+  return peaks.map(peak => peak / max);
+}
+
+/**
+ * Peaks to store alongside a message, rounded to two decimals.
+ */
+export function computeWaveformPeaks(buffer: AudioBuffer): number[] {
+  return computePeaks(buffer, STORED_PEAK_COUNT).map(peak => Math.round(peak * 100) / 100);
+}
+
+/**
+ * Copies the section of the buffer between `startSec` and `endSec`.
+ */
+export function sliceAudioBuffer(buffer: AudioBuffer, startSec: number, endSec: number): AudioBuffer {
+  const startFrame = Math.max(0, Math.floor(startSec * buffer.sampleRate));
+  const endFrame = Math.min(buffer.length, Math.ceil(endSec * buffer.sampleRate));
+  const length = Math.max(1, endFrame - startFrame);
+
+  const result = new AudioBuffer({
+    numberOfChannels: buffer.numberOfChannels,
+    length,
+    sampleRate: buffer.sampleRate,
+  });
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    result.copyToChannel(buffer.getChannelData(channel).subarray(startFrame, startFrame + length), channel);
+  }
+
+  return result;
+}
@@ -0,0 +1,194 @@
+import { renderMono } from './audio';
+
+// Offline Web Audio processing applied to a recording before upload:
+// high-pass filter → noise gate → silence trimming → loudness normalization.
+
+export interface CleanupOptions {
+  highPassHz?: number;
+  targetLufs?: number;
+  trimSilence?: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<CleanupOptions> = {
+  highPassHz: 80,
+  targetLufs: -16, // common target for spoken-word audio
+  trimSilence: true,
+};
+
+const WINDOW_SEC = 0.02;
+const GATE_HOLD_SEC = 0.15;
+const GATE_FLOOR_GAIN = 0.1; // -20 dB rather than hard silence, so speech tails stay natural
+const GATE_SMOOTHING = 0.3;
+const SILENCE_PADDING_SEC = 0.25;
+const PEAK_CEILING = 0.89; // -1 dBFS
+
+const dbToGain = (db: number) => 10 ** (db / 20);
+
+async function applyHighPass(buffer: AudioBuffer, frequency: number): Promise<AudioBuffer> {
+  const offline = new OfflineAudioContext(1, buffer.length, buffer.sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+
+  const filter = offline.createBiquadFilter();
+  filter.type = 'highpass';
+  filter.frequency.value = frequency;
+
+  source.connect(filter);
+  filter.connect(offline.destination);
+  source.start();
+
+  return offline.startRendering();
+}
+
+function windowRms(samples: Float32Array, windowSize: number): number[] {
+  const levels: number[] = [];
+
+  for (let start = 0; start < samples.length; start += windowSize) {
+    const end = Math.min(start + windowSize, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    levels.push(Math.sqrt(sum / Math.max(1, end - start)));
+  }
+
+  return levels;
+}
+
+/**
+ * Places the gate a little above the noise floor, estimated as the level of
+ * the quietest 10% of the recording.
+ */
+function estimateGateThreshold(levels: number[]): number {
+  const sorted = [...levels].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+  return Math.min(Math.max(noiseFloor * 3, dbToGain(-60)), dbToGain(-35));
+}
+
+function applyNoiseGate(samples: Float32Array, levels: number[], threshold: number, windowSize: number, sampleRate: number) {
+  const holdWindows = Math.ceil((GATE_HOLD_SEC * sampleRate) / windowSize);
+  const gains: number[] = [];
+  let holdRemaining = 0;
+  let gain = 1;
+
+  for (const level of levels) {
+    if (level >= threshold) {
+      holdRemaining = holdWindows;
+    } else if (holdRemaining > 0) {
+      holdRemaining--;
+    }
+
+    const target = holdRemaining > 0 ? 1 : GATE_FLOOR_GAIN;
+    gain += (target - gain) * GATE_SMOOTHING;
+    gains.push(gain);
+  }
+
+  // Interpolate between window gains so there are no audible steps
+  for (let w = 0; w < gains.length; w++) {
+    const from = gains[w - 1] ?? gains[w];
+    const to = gains[w];
+    const start = w * windowSize;
+    const end = Math.min(start + windowSize, samples.length);
+
+    for (let i = start; i < end; i++) {
+      samples[i] *= from + (to - from) * ((i - start) / windowSize);
+    }
+  }
+}
+
+function findSpeechBounds(levels: number[], threshold: number, windowSize: number, sampleRate: number, length: number): [number, number] {
+  const first = levels.findIndex(level => level >= threshold);
+  if (first === -1) return [0, length];
+
+  let last = levels.length - 1;
+  while (last > first && levels[last] < threshold) last--;
+
+  const padding = Math.round(SILENCE_PADDING_SEC * sampleRate);
+  return [
+    Math.max(0, first * windowSize - padding),
+    Math.min(length, (last + 1) * windowSize + padding),
+  ];
+}
+
+/**
+ * Integrated loudness per ITU-R BS.1770 (K-weighting with absolute and
+ * relative gating), for a mono buffer.
+ */
+async function measureLoudness(buffer: AudioBuffer): Promise<number> {
+  const offline = new OfflineAudioContext(1, buffer.length, buffer.sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+
+  const shelf = offline.createBiquadFilter();
+  shelf.type = 'highshelf';
+  shelf.frequency.value = 1681.97;
+  shelf.gain.value = 4;
+
+  const highPass = offline.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.frequency.value = 38.13;
+  highPass.Q.value = 0.5;
+
+  source.connect(shelf);
+  shelf.connect(highPass);
+  highPass.connect(offline.destination);
+  source.start();
+
+  const weighted = (await offline.startRendering()).getChannelData(0);
+  const blockSize = Math.round(0.4 * buffer.sampleRate);
+  const step = Math.round(blockSize / 4);
+  const blocks: number[] = [];
+
+  for (let start = 0; start + blockSize <= weighted.length; start += step) {
+    let sum = 0;
+    for (let i = start; i < start + blockSize; i++) {
+      sum += weighted[i] * weighted[i];
+    }
+    blocks.push(sum / blockSize);
+  }
+
+  const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const absoluteGated = blocks.filter(ms => toLufs(ms) > -70);
+  if (absoluteGated.length === 0) return -Infinity;
+
+  const relativeThreshold = toLufs(mean(absoluteGated)) - 10;
+  const relativeGated = absoluteGated.filter(ms => toLufs(ms) > relativeThreshold);
+
+  return toLufs(mean(relativeGated.length > 0 ? relativeGated : absoluteGated));
+}
+
+export async function cleanupRecording(buffer: AudioBuffer, options: CleanupOptions = {}): Promise<AudioBuffer> {
+  const { highPassHz, targetLufs, trimSilence } = { ...DEFAULT_OPTIONS, ...options };
+  const sampleRate = buffer.sampleRate;
+
+  const filtered = await applyHighPass(await renderMono(buffer), highPassHz);
+  const samples = new Float32Array(filtered.getChannelData(0));
+
+  const windowSize = Math.max(1, Math.round(WINDOW_SEC * sampleRate));
+  const levels = windowRms(samples, windowSize);
+  const threshold = estimateGateThreshold(levels);
+
+  applyNoiseGate(samples, levels, threshold, windowSize, sampleRate);
+
+  const [start, end] = trimSilence
+    ? findSpeechBounds(levels, threshold, windowSize, sampleRate, samples.length)
+    : [0, samples.length];
+
+  const result = new AudioBuffer({ numberOfChannels: 1, length: Math.max(1, end - start), sampleRate });
+  result.copyToChannel(samples.subarray(start, end), 0);
+
+  const loudness = await measureLoudness(result);
+  if (!Number.isFinite(loudness)) return result;
+
+  const output = result.getChannelData(0);
+  const peak = output.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+  const gain = Math.min(dbToGain(targetLufs - loudness), peak > 0 ? PEAK_CEILING / peak : 1);
+
+  for (let i = 0; i < output.length; i++) {
+    output[i] *= gain;
+  }
+
+  return result;
+}
@@ -0,0 +1,83 @@
+import { decodeAudioBlob, encodeWav } from './audio';
+import { baseMimeType, isPortable } from './recordingFormat';
+import { checkRecording, type RecordingPolicy } from './recordingPolicy';
+
+// Value for the file input's `accept` attribute
+export const AUDIO_FILE_ACCEPT = 'audio/*,.mp3,.m4a,.aac,.wav,.ogg,.oga,.opus,.webm,.flac';
+
+// Browsers label the same formats in different ways, and some leave the type
+// empty, so fall back to the file extension
+const MIME_TYPE_ALIASES: Record<string, string> = {
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/vnd.wave': 'audio/wav',
+  'audio/x-flac': 'audio/flac',
+};
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+  flac: 'audio/flac',
+};
+
+export interface ImportedAudio {
+  blob: Blob;
+  duration: number;
+}
+
+function detectMimeType(file: File): string | null {
+  const type = baseMimeType(file.type || '');
+  if (type.startsWith('audio/')) {
+    return MIME_TYPE_ALIASES[type] ?? type;
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_MIME_TYPES[extension] ?? null;
+}
+
+/**
+ * Validates an audio file picked by the user against their recording policy
+ * and converts it to a format every browser can play. Throws an Error with a
+ * user-facing message when the file can't be used.
+ */
+export async function prepareAudioFile(file: File, policy: RecordingPolicy): Promise<ImportedAudio> {
+  const mimeType = detectMimeType(file);
+  if (!mimeType) {
+    throw new Error('This file is not a supported audio format.');
+  }
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudioBlob(file);
+  } catch (error) {
+    console.error('Error decoding audio file:', error);
+    throw new Error('This audio file could not be read. It may be damaged or in an unsupported format.');
+  }
+
+  const problem = checkRecording(policy, { duration: buffer.duration, size: file.size });
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  if (isPortable(mimeType)) {
+    return { blob: new Blob([file], { type: mimeType }), duration: buffer.duration };
+  }
+
+  // Re-encoding can make the file larger, so check the size again
+  const wav = await encodeWav(buffer);
+  const wavProblem = checkRecording(policy, { duration: buffer.duration, size: wav.size });
+  if (wavProblem) {
+    throw new Error(wavProblem);
+  }
+
+  return { blob: wav, duration: buffer.duration };
+}
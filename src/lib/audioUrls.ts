@@ -0,0 +1,154 @@
+import { supabase } from './supabase';
+
+const SIGNED_URL_EXPIRY_SEC = 3600;
+// Treat URLs as expired a little early so playback never starts on one that
+// is about to lapse
+const EXPIRY_MARGIN_MS = 5 * 60_000;
+// Requests made within this window are signed in a single call
+const BATCH_DELAY_MS = 20;
+const MAX_BATCH_SIZE = 100;
+
+const NOT_FOUND_MESSAGE = 'This audio message is no longer available. The file may have been deleted or moved.';
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+interface Waiter {
+  resolve: (url: string) => void;
+  reject: (error: Error) => void;
+}
+
+const cache = new Map<string, CachedUrl>();
+let pending = new Map<string, Waiter[]>();
+let batchTimer: number | null = null;
+
+// Some older rows stored the bucket name in front of the path
+export function toStoragePath(audioUrl: string): string {
+  return audioUrl.startsWith('voices/') ? audioUrl.substring(7) : audioUrl;
+}
+
+/** A still-valid signed URL from the cache, without waiting on the network. */
+export function getCachedAudioUrl(audioUrl: string): string | null {
+  const cached = cache.get(toStoragePath(audioUrl));
+  return cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now() ? cached.url : null;
+}
+
+/**
+ * Returns a playable URL for a voice message stored in the `voices` bucket.
+ * URLs are cached until shortly before they expire, and requests made at the
+ * same time (e.g. every message scrolling into view) are signed together.
+ */
+export function getAudioUrl(audioUrl: string): Promise<string> {
+  if (!audioUrl) {
+    return Promise.reject(new Error('Audio URL is missing'));
+  }
+
+  const cached = getCachedAudioUrl(audioUrl);
+  if (cached) {
+    return Promise.resolve(cached);
+  }
+
+  const path = toStoragePath(audioUrl);
+
+  return new Promise((resolve, reject) => {
+    pending.set(path, [...(pending.get(path) ?? []), { resolve, reject }]);
+
+    if (batchTimer === null) {
+      batchTimer = window.setTimeout(flushPending, BATCH_DELAY_MS);
+    }
+  });
+}
+
+/** Drops a URL the player found to be expired or rejected. */
+export function invalidateAudioUrl(audioUrl: string) {
+  cache.delete(toStoragePath(audioUrl));
+}
+
+export function clearAudioUrlCache() {
+  cache.clear();
+}
+
+async function flushPending() {
+  batchTimer = null;
+
+  const waiters = pending;
+  pending = new Map();
+
+  const paths = [...waiters.keys()];
+  for (let i = 0; i < paths.length; i += MAX_BATCH_SIZE) {
+    await signPaths(paths.slice(i, i + MAX_BATCH_SIZE), waiters);
+  }
+}
+
+async function signPaths(paths: string[], waiters: Map<string, Waiter[]>) {
+  const settle = (path: string, result: string | Error) => {
+    for (const waiter of waiters.get(path) ?? []) {
+      if (typeof result === 'string') {
+        waiter.resolve(result);
+      } else {
+        waiter.reject(result);
+      }
+    }
+  };
+
+  // Measure expiry from before the request so the cache never outlives the URL
+  const expiresAt = Date.now() + SIGNED_URL_EXPIRY_SEC * 1000;
+
+  const { data, error } = await supabase.storage
+    .from('voices')
+    .createSignedUrls(paths, SIGNED_URL_EXPIRY_SEC);
+
+  if (error) {
+    console.error('Error signing audio URLs:', error);
+    paths.forEach(path => settle(path, error));
+    return;
+  }
+
+  const signed = new Map(data.map(item => [item.path, item]));
+
+  for (const path of paths) {
+    const item = signed.get(path);
+
+    if (!item?.signedUrl || item.error) {
+      // Storage reports missing objects and denied access the same way
+      settle(path, new Error(item ? NOT_FOUND_MESSAGE : 'Failed to generate audio URL'));
+      continue;
+    }
+
+    cache.set(path, { url: item.signedUrl, expiresAt });
+    settle(path, item.signedUrl);
+  }
+}
+
+export function describeAudioError(error: unknown): string {
+  if (!navigator.onLine) {
+    return 'You\'re offline, and this message hasn\'t been downloaded for offline listening.';
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('no longer available')) {
+      return error.message;
+    }
+    if (error.message.includes('Format not supported')) {
+      return 'This browser cannot play this recording\'s format. Try another browser.';
+    }
+  }
+
+  return 'Unable to load the audio message';
+}
+
+/** Explains why the <audio> element gave up on a file. */
+export function describeMediaError(error: MediaError | null): string {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_NETWORK:
+      return 'The audio stopped loading. Check your connection and try again.';
+    case MediaError.MEDIA_ERR_DECODE:
+      return 'This recording appears to be damaged and cannot be played.';
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return 'This audio message could not be played. The file may be missing or in an unsupported format.';
+    default:
+      return 'Failed to play the audio file';
+  }
+}
@@ -0,0 +1,28 @@
+import type { Database } from './database.types';
+
+type BookmarkRow = Database['public']['Tables']['bookmarks']['Row'];
+
+export type Bookmark = Pick<BookmarkRow, 'id' | 'timestamp_sec' | 'label' | 'note' | 'color'>;
+
+export type BookmarkValues = Pick<Bookmark, 'label' | 'note' | 'color'>;
+
+// Columns to select wherever a Bookmark is loaded
+export const BOOKMARK_COLUMNS = 'id, timestamp_sec, label, note, color';
+
+// Each color doubles as a category; mirrors the check constraint on `bookmarks.color`
+export const BOOKMARK_COLORS = [
+  { value: 'amber', label: 'Highlight', className: 'bg-amber-500' },
+  { value: 'green', label: 'Action item', className: 'bg-green-500' },
+  { value: 'blue', label: 'Question', className: 'bg-blue-500' },
+  { value: 'red', label: 'Concern', className: 'bg-red-500' },
+  { value: 'purple', label: 'Follow up', className: 'bg-purple-500' },
+];
+
+export const DEFAULT_BOOKMARK_COLOR = 'amber';
+
+export function getBookmarkColor(color: string) {
+  return BOOKMARK_COLORS.find(c => c.value === color) ?? BOOKMARK_COLORS[0];
+}
+
+export const sortBookmarks = <T extends Pick<Bookmark, 'timestamp_sec'>>(bookmarks: T[]) =>
+  [...bookmarks].sort((a, b) => a.timestamp_sec - b.timestamp_sec);
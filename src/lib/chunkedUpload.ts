@@ -0,0 +1,146 @@
+import { supabase } from './supabase';
+
+// Each chunk gets a couple of quick retries; after that the recording falls
+// back to a single upload when it is sent
+const MAX_CHUNK_ATTEMPTS = 3;
+const CHUNK_RETRY_DELAY_MS = 1_000;
+
+export interface StreamedRecording {
+  recordingId: string;
+  partCount: number;
+  // The recorder's own format, which the chunks are in even when the reviewed
+  // recording was re-encoded (e.g. WebM as WAV)
+  mimeType?: string;
+}
+
+export interface ChunkUploader {
+  recordingId: string;
+  add: (chunk: Blob) => void;
+  // Resolves once every queued chunk is stored, or null if any of them failed
+  finish: () => Promise<StreamedRecording | null>;
+  abort: () => Promise<void>;
+}
+
+export const recordingPartsFolder = (conversationId: string, recordingId: string) =>
+  `${conversationId}/parts/${recordingId}`;
+
+// Zero-padded so a plain name sort keeps the chunks in recording order
+export const recordingPartName = (index: number) => `${String(index).padStart(5, '0')}.part`;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Names of the chunks already stored for a recording; empty if they can't be listed
+export async function listRecordingParts(conversationId: string, recordingId: string): Promise<string[]> {
+  const { data, error } = await supabase.storage
+    .from('voices')
+    .list(recordingPartsFolder(conversationId, recordingId), { limit: 1000 });
+
+  if (error) {
+    console.error('Error listing recording chunks:', error);
+    return [];
+  }
+
+  return (data || []).map(file => file.name);
+}
+
+// For chunks whose count isn't known, e.g. left behind by a closed tab
+export async function removeRecordingFolder(conversationId: string, recordingId: string): Promise<void> {
+  const names = await listRecordingParts(conversationId, recordingId);
+  if (names.length === 0) return;
+
+  const folder = recordingPartsFolder(conversationId, recordingId);
+  const { error } = await supabase.storage.from('voices').remove(names.map(name => `${folder}/${name}`));
+
+  if (error) {
+    console.error('Error removing recording chunks:', error);
+  }
+}
+
+export async function removeRecordingParts(conversationId: string, { recordingId, partCount }: StreamedRecording): Promise<void> {
+  if (partCount === 0) return;
+
+  const folder = recordingPartsFolder(conversationId, recordingId);
+  const paths = Array.from({ length: partCount }, (_, i) => `${folder}/${recordingPartName(i)}`);
+  const { error } = await supabase.storage.from('voices').remove(paths);
+
+  if (error) {
+    console.error('Error removing recording chunks:', error);
+  }
+}
+
+/**
+ * Uploads MediaRecorder chunks to `voices/{conversationId}/parts/{recordingId}/`
+ * one at a time, in order, while recording is still going on. Chunks named in
+ * `storedParts` are already there and are skipped, so an earlier recording
+ * can be picked up again.
+ */
+export function createChunkUploader(
+  conversationId: string,
+  recordingId: string = crypto.randomUUID(),
+  storedParts: ReadonlySet<string> = new Set()
+): ChunkUploader {
+  const folder = recordingPartsFolder(conversationId, recordingId);
+
+  let queue: Promise<void> = Promise.resolve();
+  let partCount = 0;
+  let failed = false;
+  let aborted = false;
+
+  const uploadChunk = async (chunk: Blob, index: number) => {
+    for (let attempt = 1; ; attempt++) {
+      const { error } = await supabase.storage
+        .from('voices')
+        .upload(`${folder}/${recordingPartName(index)}`, chunk, {
+          contentType: chunk.type || 'application/octet-stream'
+        });
+
+      if (!error || error.message.includes('already exists')) return;
+      if (attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+
+      await wait(CHUNK_RETRY_DELAY_MS * attempt);
+    }
+  };
+
+  return {
+    recordingId,
+
+    add: (chunk) => {
+      const index = partCount++;
+      if (storedParts.has(recordingPartName(index))) return;
+
+      queue = queue.then(async () => {
+        if (failed || aborted) return;
+
+        try {
+          await uploadChunk(chunk, index);
+        } catch (error) {
+          console.error('Error uploading recording chunk:', error);
+          failed = true;
+        }
+      });
+    },
+
+    finish: async () => {
+      await queue;
+      return failed || aborted || partCount === 0 ? null : { recordingId, partCount };
+    },
+
+    abort: async () => {
+      aborted = true;
+      await queue;
+      await removeRecordingParts(conversationId, { recordingId, partCount });
+    },
+  };
+}
+
+/**
+ * Continues the upload of a recording restored from a draft: whatever a
+ * closed tab or crash left unsent is uploaded from the draft's chunks.
+ */
+export async function resumeChunkUploader(conversationId: string, recordingId: string, chunks: Blob[]): Promise<ChunkUploader> {
+  const stored = await listRecordingParts(conversationId, recordingId);
+  const uploader = createChunkUploader(conversationId, recordingId, new Set(stored));
+
+  chunks.forEach(chunk => uploader.add(chunk));
+  return uploader;
+}
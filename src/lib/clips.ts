@@ -0,0 +1,36 @@
+import { computeWaveformPeaks, decodeAudioBlob, encodeWav, sliceAudioBuffer } from './audio';
+import { getAudioUrl } from './audioUrls';
+
+// Long enough for a point worth sharing, short enough to stay an excerpt
+export const DEFAULT_CLIP_SEC = 30;
+
+export interface ClipRange {
+  start: number;
+  end: number;
+}
+
+export interface AudioClip {
+  blob: Blob;
+  duration: number;
+  waveformPeaks: number[];
+}
+
+/**
+ * Downloads a stored voice message and cuts `startSec`–`endSec` out of it as
+ * WAV, so the clip plays everywhere whatever the original format was.
+ */
+export async function extractClip(audioUrl: string, startSec: number, endSec: number): Promise<AudioClip> {
+  const response = await fetch(await getAudioUrl(audioUrl));
+  if (!response.ok) {
+    throw new Error(`Failed to download audio (${response.status})`);
+  }
+
+  const buffer = await decodeAudioBlob(await response.blob());
+  const clip = sliceAudioBuffer(buffer, startSec, Math.min(endSec, buffer.duration));
+
+  return {
+    blob: await encodeWav(clip),
+    duration: clip.duration,
+    waveformPeaks: computeWaveformPeaks(clip),
+  };
+}
@@ -18,6 +18,7 @@ export interface Database {
           director_id: string | null
           full_name: string
           avatar_url: string | null
+          settings: Json
         }
         Insert: {
           id: string
@@ -27,6 +28,7 @@ export interface Database {
           director_id?: string | null
           full_name: string
           avatar_url?: string | null
+          settings?: Json
         }
         Update: {
           id?: string
@@ -36,6 +38,7 @@ export interface Database {
           director_id?: string | null
           full_name?: string
           avatar_url?: string | null
+          settings?: Json
         }
       }
       conversations: {
@@ -63,16 +66,19 @@ export interface Database {
           conversation_id: string
           user_id: string
           role: 'client' | 'mentor' | 'training_director'
+          last_read_at: string | null
         }
         Insert: {
           conversation_id: string
           user_id: string
           role: 'client' | 'mentor' | 'training_director'
+          last_read_at?: string | null
         }
         Update: {
           conversation_id?: string
           user_id?: string
           role?: 'client' | 'mentor' | 'training_director'
+          last_read_at?: string | null
         }
       }
       audio_messages: {
@@ -81,27 +87,42 @@ export interface Database {
           created_at: string
           conversation_id: string
           sender_id: string
-          audio_url: string
+          audio_url: string | null
           duration: number
           text_transcript: string | null
+          mime_type: string | null
+          waveform_peaks: Json | null
+          source_message_id: string | null
+          source_start_sec: number | null
+          source_end_sec: number | null
         }
         Insert: {
           id?: string
           created_at?: string
           conversation_id: string
           sender_id: string
-          audio_url: string
+          audio_url: string | null
           duration: number
           text_transcript?: string | null
+          mime_type?: string | null
+          waveform_peaks?: Json | null
+          source_message_id?: string | null
+          source_start_sec?: number | null
+          source_end_sec?: number | null
         }
         Update: {
           id?: string
           created_at?: string
           conversation_id?: string
           sender_id?: string
-          audio_url?: string
+          audio_url?: string | null
           duration?: number
           text_transcript?: string | null
+          mime_type?: string | null
+          waveform_peaks?: Json | null
+          source_message_id?: string | null
+          source_start_sec?: number | null
+          source_end_sec?: number | null
         }
       }
       bookmarks: {
@@ -112,6 +133,8 @@ export interface Database {
           user_id: string
           timestamp_sec: number
           label: string
+          note: string | null
+          color: string
         }
         Insert: {
           id?: string
@@ -120,6 +143,8 @@ export interface Database {
           user_id: string
           timestamp_sec: number
           label: string
+          note?: string | null
+          color?: string
         }
         Update: {
           id?: string
@@ -128,6 +153,8 @@ export interface Database {
           user_id?: string
           timestamp_sec?: number
           label?: string
+          note?: string | null
+          color?: string
         }
       }
       favorites: {
@@ -147,6 +174,84 @@ export interface Database {
           created_at?: string
         }
       }
+      playback_positions: {
+        Row: {
+          user_id: string
+          message_id: string
+          position_sec: number
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          message_id: string
+          position_sec: number
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          message_id?: string
+          position_sec?: number
+          updated_at?: string
+        }
+      }
+      message_comments: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          message_id: string
+          conversation_id: string
+          author_id: string
+          parent_id: string | null
+          start_sec: number | null
+          end_sec: number | null
+          body: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          message_id: string
+          conversation_id?: string
+          author_id: string
+          parent_id?: string | null
+          start_sec?: number | null
+          end_sec?: number | null
+          body: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          message_id?: string
+          conversation_id?: string
+          author_id?: string
+          parent_id?: string | null
+          start_sec?: number | null
+          end_sec?: number | null
+          body?: string
+        }
+      }
+      message_reads: {
+        Row: {
+          message_id: string
+          user_id: string
+          conversation_id: string
+          read_at: string
+        }
+        Insert: {
+          message_id: string
+          user_id: string
+          conversation_id?: string
+          read_at?: string
+        }
+        Update: {
+          message_id?: string
+          user_id?: string
+          conversation_id?: string
+          read_at?: string
+        }
+      }
       folders: {
         Row: {
           id: string
@@ -184,6 +289,53 @@ export interface Database {
           added_at?: string
         }
       }
+      recording_policies: {
+        Row: {
+          id: string
+          created_at: string
+          role: 'client' | 'mentor' | 'training_director'
+          director_id: string | null
+          min_duration_sec: number
+          max_duration_sec: number
+          max_file_size_bytes: number
+          allow_text_messages: boolean
+          allow_outside_business_hours: boolean
+          business_hours_start: string
+          business_hours_end: string
+          business_days: number[]
+          timezone: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          role: 'client' | 'mentor' | 'training_director'
+          director_id?: string | null
+          min_duration_sec?: number
+          max_duration_sec?: number
+          max_file_size_bytes?: number
+          allow_text_messages?: boolean
+          allow_outside_business_hours?: boolean
+          business_hours_start?: string
+          business_hours_end?: string
+          business_days?: number[]
+          timezone?: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          role?: 'client' | 'mentor' | 'training_director'
+          director_id?: string | null
+          min_duration_sec?: number
+          max_duration_sec?: number
+          max_file_size_bytes?: number
+          allow_text_messages?: boolean
+          allow_outside_business_hours?: boolean
+          business_hours_start?: string
+          business_hours_end?: string
+          business_days?: number[]
+          timezone?: string
+        }
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+// Minimal promise wrapper around IndexedDB for data that has to survive
+// reloads (e.g. recordings that have not been uploaded yet).
+const DB_NAME = 'voicelink';
+const DB_VERSION = 3;
+
+export const STORES = {
+  outbox: 'outbox',
+  drafts: 'drafts',
+  offlineConversations: 'offlineConversations',
+  offlineAudio: 'offlineAudio',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.outbox, { keyPath: 'id' });
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.drafts, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.offlineConversations, { keyPath: 'id' });
+    db.createObjectStore(STORES.offlineAudio, { keyPath: 'path' });
+  }
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        upgrade(request.result, event.oldVersion);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisify(run(transaction.objectStore(storeName)));
+}
+
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+}
+
+export function idbGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function idbPut<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+}
+
+export async function idbDelete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+}
+
+export async function idbClear(storeName: StoreName): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.clear());
+}
@@ -0,0 +1,74 @@
+// Microphone access: device choice, opening the input, and turning
+// getUserMedia failures into guidance the user can act on.
+
+const DEVICE_STORAGE_KEY = 'voicelink.inputDeviceId';
+
+export function getPreferredInputDevice(): string | null {
+  try {
+    return localStorage.getItem(DEVICE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setPreferredInputDevice(deviceId: string | null) {
+  try {
+    if (deviceId) {
+      localStorage.setItem(DEVICE_STORAGE_KEY, deviceId);
+    } else {
+      localStorage.removeItem(DEVICE_STORAGE_KEY);
+    }
+  } catch {
+    // Storage may be unavailable (e.g. private browsing); the default device still works
+  }
+}
+
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // Chrome also lists a "default" alias, which the UI offers separately
+  return devices.filter(device => device.kind === 'audioinput' && device.deviceId !== 'default');
+}
+
+/**
+ * Opens the preferred input device, falling back to the system default if it
+ * has been unplugged since it was chosen.
+ */
+export async function openMicrophone(deviceId = getPreferredInputDevice()): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new DOMException('Microphone access is not available', 'NotSupportedError');
+  }
+
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } });
+    } catch (error) {
+      const name = error instanceof DOMException ? error.name : '';
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') {
+        throw error;
+      }
+      setPreferredInputDevice(null);
+    }
+  }
+
+  return navigator.mediaDevices.getUserMedia({ audio: true });
+}
+
+export function describeMicrophoneError(error: unknown): string {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Microphone access is blocked. Allow it from the lock or site settings icon in your browser\'s address bar, then try again.';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No microphone was found. Connect a microphone or headset and try again.';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'Your microphone is being used by another app or tab. Close it there and try again.';
+    case 'NotSupportedError':
+      return 'This browser cannot record audio. Try a recent version of Chrome, Safari, Firefox or Edge.';
+    default:
+      return 'Could not access microphone. Please check permissions.';
+  }
+}
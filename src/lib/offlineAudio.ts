@@ -0,0 +1,154 @@
+import { getAudioUrl, toStoragePath } from './audioUrls';
+import { idbClear, idbDelete, idbGetAll, idbPut, STORES } from './idb';
+
+// Also named in public/sw.js, which serves these entries to the <audio> element
+export const OFFLINE_AUDIO_CACHE = 'voicelink-offline-audio';
+const OFFLINE_AUDIO_PREFIX = '/offline-audio/';
+
+// Downloads beyond this evict the least recently played messages
+export const OFFLINE_BUDGET_BYTES = 200 * 1024 * 1024;
+
+/** A message as the conversation pages render it, saved for offline use. */
+export interface OfflineMessage {
+  id: string;
+  created_at: string;
+  sender_id: string;
+  audio_url?: string | null;
+  duration?: number;
+  text_transcript?: string | null;
+  mime_type?: string | null;
+  waveform_peaks?: number[] | null;
+  source_message_id?: string | null;
+  source_start_sec?: number | null;
+  source_end_sec?: number | null;
+  sender: {
+    id: string;
+    full_name: string;
+  };
+}
+
+export interface OfflineConversation {
+  id: string;
+  userId: string;
+  participantIds: string[];
+  savedAt: string;
+  messages: OfflineMessage[];
+}
+
+/** A downloaded voice message file, keyed by its storage path. */
+export interface OfflineAudio {
+  path: string;
+  userId: string;
+  conversationId: string;
+  messageId: string;
+  size: number;
+  lastUsedAt: number;
+}
+
+export interface OfflineIndex {
+  conversations: OfflineConversation[];
+  audio: OfflineAudio[];
+}
+
+const cacheKey = (path: string) => `${OFFLINE_AUDIO_PREFIX}${path}`;
+
+let objectUrl: string | null = null;
+
+// Cache Storage only exists on secure origins
+export function isOfflineSupported(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+/**
+ * Everything saved for offline use by this user. Anything saved by someone
+ * else (e.g. a session that expired without signing out) is deleted.
+ */
+export async function loadOfflineIndex(userId: string): Promise<OfflineIndex> {
+  const [conversations, audio] = await Promise.all([
+    idbGetAll<OfflineConversation>(STORES.offlineConversations),
+    idbGetAll<OfflineAudio>(STORES.offlineAudio),
+  ]);
+
+  if ([...conversations, ...audio].some(record => record.userId !== userId)) {
+    await clearOfflineAudio();
+    return { conversations: [], audio: [] };
+  }
+
+  return { conversations, audio };
+}
+
+export async function saveOfflineConversation(conversation: OfflineConversation): Promise<void> {
+  await idbPut(STORES.offlineConversations, conversation);
+}
+
+export async function deleteOfflineConversation(conversationId: string): Promise<void> {
+  await idbDelete(STORES.offlineConversations, conversationId);
+}
+
+/** Fetches a voice message's file so it can be kept offline. */
+export async function downloadAudio(audioUrl: string): Promise<Blob> {
+  const response = await fetch(await getAudioUrl(audioUrl));
+  if (!response.ok) {
+    throw new Error(`Failed to download audio (${response.status})`);
+  }
+
+  return response.blob();
+}
+
+export async function saveOfflineAudio(entry: OfflineAudio, blob: Blob): Promise<void> {
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  await cache.put(cacheKey(entry.path), new Response(blob, {
+    headers: {
+      'Content-Type': blob.type || 'application/octet-stream',
+      'Content-Length': String(blob.size),
+    },
+  }));
+  await idbPut(STORES.offlineAudio, entry);
+}
+
+export async function deleteOfflineAudio(path: string): Promise<void> {
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  await cache.delete(cacheKey(path));
+  await idbDelete(STORES.offlineAudio, path);
+}
+
+export async function touchOfflineAudio(entry: OfflineAudio): Promise<void> {
+  await idbPut(STORES.offlineAudio, entry);
+}
+
+/**
+ * A URL the service worker answers from the cache, with range support so
+ * seeking works. Null until the worker controls the page.
+ */
+export function offlineAudioServiceUrl(audioUrl: string): string | null {
+  return navigator.serviceWorker?.controller ? cacheKey(toStoragePath(audioUrl)) : null;
+}
+
+/**
+ * Reads a downloaded file straight from the cache, for when no service worker
+ * is running (e.g. in development). Only the latest URL is kept alive.
+ */
+export async function readOfflineAudio(audioUrl: string): Promise<string | null> {
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  const response = await cache.match(cacheKey(toStoragePath(audioUrl)));
+  if (!response) return null;
+
+  if (objectUrl) URL.revokeObjectURL(objectUrl);
+  objectUrl = URL.createObjectURL(await response.blob());
+
+  return objectUrl;
+}
+
+/** Removes every downloaded file and saved conversation from this device. */
+export async function clearOfflineAudio(): Promise<void> {
+  if (objectUrl) {
+    URL.revokeObjectURL(objectUrl);
+    objectUrl = null;
+  }
+
+  await Promise.all([
+    isOfflineSupported() && caches.delete(OFFLINE_AUDIO_CACHE),
+    idbClear(STORES.offlineConversations),
+    idbClear(STORES.offlineAudio),
+  ]);
+}
@@ -0,0 +1,100 @@
+import { concatAudioBuffers, decodeAudioBlob, encodeWav, WAV_MIME_TYPE } from './audio';
+
+// Ordered by preference. AAC in MP4 plays everywhere; Opus in WebM/Ogg does
+// not play on older Safari, so those recordings are re-encoded as WAV.
+const RECORDER_MIME_TYPES = [
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4',
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/webm',
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+export interface RecordedAudio {
+  blob: Blob;
+  mimeType: string;
+  extension: string;
+}
+
+/** Strips codec parameters, e.g. `audio/webm;codecs=opus` → `audio/webm`. */
+export function baseMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+export function extensionForMimeType(mimeType: string): string {
+  return EXTENSIONS[baseMimeType(mimeType)] ?? 'bin';
+}
+
+// Formats that play in every browser we support, including Safari on iOS
+export function isPortable(mimeType: string): boolean {
+  const base = baseMimeType(mimeType);
+  return base === 'audio/mp4' || base === 'audio/aac' || base === 'audio/mpeg' || base === WAV_MIME_TYPE;
+}
+
+/**
+ * Picks the best container/codec this browser's MediaRecorder can produce,
+ * or `undefined` to let the browser use its default.
+ */
+export function getPreferredRecorderMimeType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) {
+    return undefined;
+  }
+
+  return RECORDER_MIME_TYPES.find(mimeType => MediaRecorder.isTypeSupported(mimeType));
+}
+
+export function createMediaRecorder(stream: MediaStream): MediaRecorder {
+  const mimeType = getPreferredRecorderMimeType();
+  return mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream);
+}
+
+/**
+ * Assembles recorder chunks into a blob labelled with its real MIME type,
+ * re-encoding to WAV when the browser could only produce a format that
+ * other browsers may not be able to play.
+ */
+export async function finalizeRecording(chunks: Blob[], recorderMimeType: string): Promise<RecordedAudio> {
+  const mimeType = recorderMimeType || chunks[0]?.type || getPreferredRecorderMimeType() || 'audio/webm';
+  const blob = new Blob(chunks, { type: mimeType });
+
+  if (isPortable(mimeType)) {
+    return { blob, mimeType, extension: extensionForMimeType(mimeType) };
+  }
+
+  try {
+    const wav = await encodeWav(await decodeAudioBlob(blob));
+    return { blob: wav, mimeType: WAV_MIME_TYPE, extension: 'wav' };
+  } catch (error) {
+    // Keep the original rather than lose the recording; most browsers can still play it
+    console.error('Error re-encoding recording:', error);
+    return { blob, mimeType, extension: extensionForMimeType(mimeType) };
+  }
+}
+
+/**
+ * Joins recordings made by separate MediaRecorder instances (used when the
+ * browser cannot pause a recorder) into one WAV file.
+ */
+export async function stitchRecordings(segments: Blob[][], recorderMimeType: string): Promise<RecordedAudio> {
+  const nonEmpty = segments.filter(chunks => chunks.length > 0);
+  if (nonEmpty.length <= 1) {
+    return finalizeRecording(nonEmpty[0] ?? [], recorderMimeType);
+  }
+
+  const buffers = await Promise.all(
+    nonEmpty.map(chunks => decodeAudioBlob(new Blob(chunks, { type: recorderMimeType || chunks[0].type })))
+  );
+  const wav = await encodeWav(await concatAudioBuffers(buffers));
+  return { blob: wav, mimeType: WAV_MIME_TYPE, extension: 'wav' };
+}
@@ -0,0 +1,103 @@
+import type { Database } from './database.types';
+import { formatDuration } from './utils';
+
+type RecordingPolicyRow = Database['public']['Tables']['recording_policies']['Row'];
+
+export type RecordingPolicy = Pick<
+  RecordingPolicyRow,
+  | 'min_duration_sec'
+  | 'max_duration_sec'
+  | 'max_file_size_bytes'
+  | 'allow_text_messages'
+  | 'allow_outside_business_hours'
+  | 'business_hours_start'
+  | 'business_hours_end'
+  | 'business_days'
+  | 'timezone'
+>;
+
+// Used until the user's policy has loaded; mirrors the database defaults
+export const DEFAULT_RECORDING_POLICY: RecordingPolicy = {
+  min_duration_sec: 1,
+  max_duration_sec: 15 * 60,
+  max_file_size_bytes: 50 * 1024 * 1024,
+  allow_text_messages: true,
+  allow_outside_business_hours: true,
+  business_hours_start: '08:00:00',
+  business_hours_end: '18:00:00',
+  business_days: [1, 2, 3, 4, 5],
+  timezone: 'UTC',
+};
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export function parseRecordingPolicy(row: Partial<RecordingPolicyRow> | null | undefined): RecordingPolicy {
+  if (!row) return DEFAULT_RECORDING_POLICY;
+
+  const policy = { ...DEFAULT_RECORDING_POLICY };
+  for (const key of Object.keys(policy) as (keyof RecordingPolicy)[]) {
+    if (row[key] !== null && row[key] !== undefined) {
+      Object.assign(policy, { [key]: row[key] });
+    }
+  }
+
+  // NUMERIC and BIGINT columns may arrive as strings
+  policy.min_duration_sec = Number(policy.min_duration_sec);
+  policy.max_duration_sec = Number(policy.max_duration_sec);
+  policy.max_file_size_bytes = Number(policy.max_file_size_bytes);
+
+  return policy;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function isWithinBusinessHours(policy: RecordingPolicy, date = new Date()): boolean {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: policy.timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  const isoWeekday = WEEKDAY_NAMES.indexOf(part('weekday')) + 1;
+  const minutes = toMinutes(`${part('hour')}:${part('minute')}`);
+
+  return policy.business_days.includes(isoWeekday)
+    && minutes >= toMinutes(policy.business_hours_start)
+    && minutes < toMinutes(policy.business_hours_end);
+}
+
+/** e.g. "Mon, Tue, Wed, Thu, Fri 08:00–18:00 (UTC)" */
+export function describeBusinessHours(policy: RecordingPolicy): string {
+  const days = [...policy.business_days].sort().map(day => WEEKDAY_NAMES[day - 1]).join(', ');
+  const start = policy.business_hours_start.slice(0, 5);
+  const end = policy.business_hours_end.slice(0, 5);
+  return `${days} ${start}–${end} (${policy.timezone})`;
+}
+
+export function canSendNow(policy: RecordingPolicy): boolean {
+  return policy.allow_outside_business_hours || isWithinBusinessHours(policy);
+}
+
+/**
+ * Returns a message explaining why the recording can't be sent, or null if it
+ * is within the policy's limits.
+ */
+export function checkRecording(policy: RecordingPolicy, { duration, size }: { duration: number; size: number }): string | null {
+  if (duration < policy.min_duration_sec) {
+    return `Voice messages must be at least ${formatDuration(policy.min_duration_sec)} long.`;
+  }
+  if (duration > policy.max_duration_sec) {
+    return `Voice messages can be at most ${formatDuration(policy.max_duration_sec)} long.`;
+  }
+  if (size > policy.max_file_size_bytes) {
+    const megabytes = Math.floor(policy.max_file_size_bytes / (1024 * 1024));
+    return `This recording is too large to send (limit ${megabytes} MB). Try trimming it.`;
+  }
+  return null;
+}
@@ -0,0 +1,34 @@
+import type { Json } from './database.types';
+
+// Shape of `profiles.settings`. Keys are optional in the database; missing
+// ones fall back to the defaults below.
+export interface ProfileSettings {
+  audio_cleanup: boolean;
+  playback_rate: number;
+}
+
+export const DEFAULT_SETTINGS: ProfileSettings = {
+  audio_cleanup: false,
+  playback_rate: 1,
+};
+
+// Speeds offered by the player, slowest first
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2, 2.5];
+
+export function formatPlaybackRate(rate: number): string {
+  return `${rate}×`;
+}
+
+export function parseSettings(raw: Json | null | undefined): ProfileSettings {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return DEFAULT_SETTINGS;
+  }
+
+  const settings = { ...DEFAULT_SETTINGS, ...(raw as Partial<ProfileSettings>) };
+
+  // Only accept speeds the player offers, so the picker always has a match
+  const rate = Number(settings.playback_rate);
+  settings.playback_rate = PLAYBACK_RATES.includes(rate) ? rate : DEFAULT_SETTINGS.playback_rate;
+
+  return settings;
+}
@@ -20,4 +20,15 @@ export function formatDate(dateString: string): string {
     minute: 'numeric',
     hour12: true,
   }).format(date);
+}
+
+/** Reads a time typed as `m:ss` (or plain seconds); null if it isn't one. */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d+)$/);
+  if (!match) return null;
+
+  const [, minutes, seconds] = match;
+  if (minutes !== undefined && Number(seconds) >= 60) return null;
+
+  return Number(minutes ?? 0) * 60 + Number(seconds);
 }
\ No newline at end of file
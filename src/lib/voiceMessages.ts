@@ -0,0 +1,114 @@
+import { supabase } from './supabase';
+import { extensionForMimeType } from './recordingFormat';
+import { removeRecordingParts, type StreamedRecording } from './chunkedUpload';
+
+export interface VoiceMessageUpload {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  blob: Blob;
+  duration: number;
+  // Normalized peaks for drawing the waveform; null if the audio couldn't be decoded
+  waveformPeaks?: number[] | null;
+  // Chunks already uploaded while recording, assembled server-side on send
+  streamedRecording?: StreamedRecording | null;
+  // Set when the audio is a clip forwarded from another message
+  source?: ClipSource | null;
+}
+
+export interface ClipSource {
+  messageId: string;
+  startSec: number;
+  endSec: number;
+}
+
+// Postgres unique_violation, returned when the row was already inserted by an
+// earlier attempt whose response never reached us.
+const UNIQUE_VIOLATION = '23505';
+
+// Postgres errors the same request will keep getting: insufficient_privilege
+// (RLS, including the recording policy), not-null, foreign key and check
+// violations, and malformed values
+const PERMANENT_ERROR_CODES = ['42501', '23502', '23503', '23514', '22P02'];
+
+// Client errors from storage that don't go away by themselves; expired
+// sessions, timeouts and rate limits do
+const TRANSIENT_HTTP_STATUSES = [401, 408, 429];
+
+/**
+ * Whether an upload was refused for a reason retrying can't fix, as opposed
+ * to a network or server problem.
+ */
+export function isPermanentUploadError(error: unknown): boolean {
+  const { code, status } = (error ?? {}) as { code?: string; status?: number };
+
+  if (code && PERMANENT_ERROR_CODES.includes(code)) return true;
+
+  return typeof status === 'number'
+    && status >= 400
+    && status < 500
+    && !TRANSIENT_HTTP_STATUSES.includes(status);
+}
+
+// Durations come from the decoded audio; milliseconds are plenty for seeking
+const roundDuration = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Uploads the audio to the `voices` bucket and creates the `audio_messages`
+ * row. Safe to call again for the same message id after a partial failure.
+ */
+export async function uploadVoiceMessage(message: VoiceMessageUpload): Promise<void> {
+  // The blob carries the real format negotiated at record time
+  const mimeType = message.blob.type || 'application/octet-stream';
+
+  if (message.streamedRecording) {
+    const { error } = await supabase.functions.invoke('assemble-voice-message', {
+      body: {
+        message_id: message.id,
+        conversation_id: message.conversationId,
+        recording_id: message.streamedRecording.recordingId,
+        part_count: message.streamedRecording.partCount,
+        mime_type: message.streamedRecording.mimeType || mimeType,
+        duration: roundDuration(message.duration),
+        waveform_peaks: message.waveformPeaks ?? null
+      }
+    });
+
+    if (!error) return;
+
+    // Chunks missing or the function unavailable: upload the whole recording instead
+    console.error('Error assembling streamed recording:', error);
+  }
+  const filePath = `${message.conversationId}/${message.id}.${extensionForMimeType(mimeType)}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('voices')
+    .upload(filePath, message.blob, { contentType: mimeType });
+
+  if (uploadError && !uploadError.message.includes('already exists')) {
+    throw uploadError;
+  }
+
+  const { error: messageError } = await supabase
+    .from('audio_messages')
+    .insert({
+      id: message.id,
+      conversation_id: message.conversationId,
+      sender_id: message.senderId,
+      audio_url: filePath,
+      duration: roundDuration(message.duration),
+      mime_type: mimeType,
+      waveform_peaks: message.waveformPeaks ?? null,
+      source_message_id: message.source?.messageId ?? null,
+      source_start_sec: message.source ? roundDuration(message.source.startSec) : null,
+      source_end_sec: message.source ? roundDuration(message.source.endSec) : null
+    });
+
+  if (messageError && messageError.code !== UNIQUE_VIOLATION) {
+    throw messageError;
+  }
+
+  if (message.streamedRecording) {
+    await removeRecordingParts(message.conversationId, message.streamedRecording);
+  }
+}
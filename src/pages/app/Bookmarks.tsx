@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bookmark as BookmarkIcon, Play } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { formatDate, formatDuration } from '../../lib/utils';
+import { BOOKMARK_COLORS, BOOKMARK_COLUMNS, getBookmarkColor, type Bookmark } from '../../lib/bookmarks';
+import { useAuthStore } from '../../stores/authStore';
+import { toPlaybackTracks, usePlaybackStore } from '../../stores/playbackStore';
+import Loading from '../../components/ui/Loading';
+
+interface SavedBookmark extends Bookmark {
+  created_at: string;
+  message: {
+    id: string;
+    conversation_id: string;
+    created_at: string;
+    sender_id: string;
+    audio_url: string | null;
+    duration: number;
+    mime_type: string | null;
+    sender: {
+      id: string;
+      full_name: string;
+    };
+  };
+}
+
+const Bookmarks = () => {
+  const [bookmarks, setBookmarks] = useState<SavedBookmark[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [colorFilter, setColorFilter] = useState<string | null>(null);
+  const { user } = useAuthStore();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchBookmarks = async () => {
+      if (!user) return;
+
+      setIsLoading(true);
+
+      try {
+        const { data, error } = await supabase
+          .from('bookmarks')
+          .select(`
+            ${BOOKMARK_COLUMNS},
+            created_at,
+            message:audio_messages(
+              id,
+              conversation_id,
+              created_at,
+              sender_id,
+              audio_url,
+              duration,
+              mime_type,
+              sender:profiles!audio_messages_sender_id_fkey(id, full_name)
+            )
+          `)
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false });
+
+        if (error) {
+          throw error;
+        }
+
+        // Supabase types single relations as arrays
+        const processedBookmarks = (data || [])
+          .map(bookmark => {
+            const message = Array.isArray(bookmark.message) ? bookmark.message[0] : bookmark.message;
+
+            return message && {
+              ...bookmark,
+              message: {
+                ...message,
+                sender: Array.isArray(message.sender) ? message.sender[0] : message.sender,
+              },
+            };
+          })
+          .filter(Boolean) as SavedBookmark[];
+
+        setBookmarks(processedBookmarks);
+      } catch (error) {
+        console.error('Error fetching bookmarks:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchBookmarks();
+  }, [user]);
+
+  // Start the message at the bookmark, then show it in its conversation
+  const openBookmark = (bookmark: SavedBookmark) => {
+    const { message } = bookmark;
+    const [track] = toPlaybackTracks([message], message.conversation_id);
+
+    if (track) {
+      usePlaybackStore.getState().play(track, { startAt: bookmark.timestamp_sec });
+    }
+
+    navigate(`/conversations/${message.conversation_id}?message=${message.id}`);
+  };
+
+  const filteredBookmarks = colorFilter
+    ? bookmarks.filter(bookmark => bookmark.color === colorFilter)
+    : bookmarks;
+
+  if (isLoading) {
+    return (
+      <div className="h-64 flex items-center justify-center">
+        <Loading />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h1 className="text-2xl font-bold text-gray-900">My bookmarks</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Moments you've marked across all your conversations
+        </p>
+      </div>
+
+      {bookmarks.length > 0 && (
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by category">
+          <button
+            type="button"
+            onClick={() => setColorFilter(null)}
+            aria-pressed={colorFilter === null}
+            className={`rounded-full px-3 py-1 text-sm ${
+              colorFilter === null
+                ? 'bg-primary-600 text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            All
+          </button>
+          {BOOKMARK_COLORS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setColorFilter(option.value)}
+              aria-pressed={colorFilter === option.value}
+              className={`flex items-center gap-1.5 rounded-full px-3 py-1 text-sm ${
+                colorFilter === option.value
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span className={`h-2.5 w-2.5 rounded-full ${option.className}`} aria-hidden="true" />
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {filteredBookmarks.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+          <BookmarkIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No bookmarks</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {colorFilter
+              ? 'No bookmarks in this category'
+              : 'Press B while listening to a message to bookmark a moment'}
+          </p>
+        </div>
+      ) : (
+        <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+          {filteredBookmarks.map((bookmark) => {
+            const color = getBookmarkColor(bookmark.color);
+
+            return (
+              <li key={bookmark.id}>
+                <button
+                  type="button"
+                  onClick={() => openBookmark(bookmark)}
+                  className="w-full p-4 hover:bg-gray-50 transition-colors duration-150 text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500"
+                >
+                  <div className="flex items-start space-x-3">
+                    <span className={`mt-1.5 h-2.5 w-2.5 flex-shrink-0 rounded-full ${color.className}`} title={color.label} />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-gray-900 truncate">{bookmark.label}</p>
+                      {bookmark.note && (
+                        <p className="mt-0.5 text-sm text-gray-600 whitespace-pre-line">{bookmark.note}</p>
+                      )}
+                      <p className="mt-1 text-xs text-gray-500">
+                        <span className="sr-only">{color.label}, </span>
+                        {bookmark.message.sender.full_name}
+                        <span className="mx-1 text-gray-400">•</span>
+                        {formatDate(bookmark.message.created_at)}
+                      </p>
+                    </div>
+                    <span className="flex flex-shrink-0 items-center gap-1 text-sm text-primary-600">
+                      <Play size={14} aria-hidden="true" />
+                      {formatDuration(bookmark.timestamp_sec)}
+                    </span>
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Bookmarks;
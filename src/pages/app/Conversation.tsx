@@ -1,19 +1,36 @@
-import { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { Fragment, useState, useEffect, useMemo } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
-import AudioRecorder from '../../components/conversations/AudioRecorder';
 import AudioPlayer from '../../components/conversations/AudioPlayer';
+import MessageInput from '../../components/conversations/MessageInput';
+import OutboxMessage from '../../components/conversations/OutboxMessage';
+import UnheardDivider from '../../components/conversations/UnheardDivider';
+import ClipSourceLabel from '../../components/conversations/ClipSourceLabel';
+import OfflineDownloadButton from '../../components/conversations/OfflineDownloadButton';
+import ReadReceipt from '../../components/conversations/ReadReceipt';
+import { useOutboxStore } from '../../stores/outboxStore';
+import { toPlaybackTracks, usePlaybackStore } from '../../stores/playbackStore';
+import { useCommentStore } from '../../stores/commentStore';
+import { useOfflineStore } from '../../stores/offlineStore';
+import { useReadStore } from '../../stores/readStore';
 import { formatDate } from '../../lib/utils';
 import Loading from '../../components/ui/Loading';
 import { MessageSquare, User } from 'lucide-react';
 
-interface AudioMessage {
+interface Message {
   id: string;
   created_at: string;
   sender_id: string;
-  audio_url: string;
-  duration: number;
+  audio_url?: string | null;
+  duration?: number;
+  text_transcript?: string | null;
+  mime_type?: string | null;
+  waveform_peaks?: number[] | null;
+  // Set on clips forwarded from another message
+  source_message_id?: string | null;
+  source_start_sec?: number | null;
+  source_end_sec?: number | null;
   sender: {
     full_name: string;
     id: string;
@@ -30,17 +47,52 @@ interface Participant {
 
 const Conversation = () => {
   const { id: conversationId } = useParams<{ id: string }>();
-  const [messages, setMessages] = useState<AudioMessage[]>([]);
+  const [searchParams] = useSearchParams();
+  // Set when arriving from elsewhere (e.g. a bookmark) to show one message
+  const focusedMessageId = searchParams.get('message');
+  const [messages, setMessages] = useState<Message[]>([]);
   const [participants, setParticipants] = useState<Participant[]>([]);
   const [favorites, setFavorites] = useState<Record<string, boolean>>({});
   const [isLoading, setIsLoading] = useState(true);
+  // Set when the messages shown are the copy downloaded to this device
+  const [isOfflineCopy, setIsOfflineCopy] = useState(false);
   const { user } = useAuthStore();
+  const outboxEntries = useOutboxStore(state => state.entries);
+  const pendingMessages = outboxEntries.filter(
+    entry => entry.conversationId === conversationId && entry.senderId === user?.id
+  );
+  const reads = useReadStore(state => state.byMessage);
+  const readsLoaded = useReadStore(state => state.isLoaded && state.conversationId === conversationId);
+  const play = usePlaybackStore(state => state.play);
+  const playingId = usePlaybackStore(state => state.track?.messageId);
+  // Messages that were unread when they showed up during this visit. Being on
+  // screen marks them read, so they are kept here until they are played.
+  const [unheardIds, setUnheardIds] = useState<Set<string>>(new Set());
+  
+  // An offline copy has no participant details, only who sent what
+  const otherNames = participants.length > 0
+    ? participants.filter(p => p.user_id !== user?.id).map(p => p.profile.full_name)
+    : messages.filter(m => m.sender_id !== user?.id).map(m => m.sender.full_name);
+  const conversationName = [...new Set(otherNames)].join(', ');
+  
+  // Voice messages in order, so playback can continue with the next one
+  const tracks = useMemo(
+    () => (conversationId ? toPlaybackTracks(messages, conversationId, conversationName || undefined) : []),
+    [messages, conversationId, conversationName]
+  );
+  const unheardTracks = tracks.filter(track => unheardIds.has(track.messageId));
+  
+  const playUnheard = () => {
+    const [first, ...rest] = unheardTracks;
+    if (first) play(first, { queue: rest });
+  };
   
   useEffect(() => {
     if (!conversationId || !user) return;
     
     const fetchMessages = async () => {
       setIsLoading(true);
+      setIsOfflineCopy(false);
       
       try {
         // Fetch messages
@@ -52,6 +104,12 @@ const Conversation = () => {
             sender_id, 
             audio_url, 
             duration,
+            mime_type,
+            waveform_peaks,
+            source_message_id,
+            source_start_sec,
+            source_end_sec,
+            text_transcript,
             sender:profiles!audio_messages_sender_id_fkey(id, full_name)
           `)
           .eq('conversation_id', conversationId)
@@ -69,6 +127,9 @@ const Conversation = () => {
         
         setMessages(processedMessages);
         
+        // Where the user left off in messages they've partly heard
+        usePlaybackStore.getState().fetchPositions(processedMessages.map(msg => msg.id));
+        
         // Fetch participant details
         const { data: participantsData, error: participantsError } = await supabase
           .from('conversation_participants')
@@ -111,6 +172,16 @@ const Conversation = () => {
         
       } catch (error) {
         console.error('Error fetching conversation data:', error);
+        
+        // Without a connection, fall back to what was downloaded for offline listening
+        const offline = useOfflineStore.getState();
+        if (!offline.isLoaded) await offline.load();
+        const saved = useOfflineStore.getState().conversations[conversationId];
+        
+        if (saved) {
+          setMessages(saved.messages as Message[]);
+          setIsOfflineCopy(true);
+        }
       } finally {
         setIsLoading(false);
       }
@@ -120,7 +191,7 @@ const Conversation = () => {
     
     // Subscribe to new messages
     const subscription = supabase
-      .channel('conversation-messages')
+      .channel(`messages-${conversationId}`)
       .on('postgres_changes', 
           { event: 'INSERT', schema: 'public', table: 'audio_messages', filter: `conversation_id=eq.${conversationId}` },
           async (payload) => {
@@ -132,8 +203,8 @@ const Conversation = () => {
               .single();
             
             // Add the new message to our state
-            setMessages(prev => [...prev, {
-              ...payload.new as AudioMessage,
+            setMessages(prev => prev.some(m => m.id === payload.new.id) ? prev : [...prev, {
+              ...payload.new as Message,
               sender: senderData || { id: payload.new.sender_id, full_name: 'Unknown User' }
             }]);
           }
@@ -145,11 +216,92 @@ const Conversation = () => {
     };
   }, [conversationId, user]);
   
+  // Comments on parts of the messages, kept live for everyone in the conversation
+  useEffect(() => {
+    if (!conversationId) return;
+    
+    return useCommentStore.getState().watch(conversationId);
+  }, [conversationId]);
+  
+  // Who has seen which message, kept live so senders see their messages read
+  useEffect(() => {
+    if (!conversationId) return;
+    
+    return useReadStore.getState().watch(conversationId);
+  }, [conversationId]);
+  
+  useEffect(() => {
+    setUnheardIds(new Set());
+  }, [conversationId]);
+  
+  useEffect(() => {
+    if (!readsLoaded || !user) return;
+    
+    setUnheardIds(current => {
+      const added = messages.filter(message =>
+        message.sender_id !== user.id
+        && message.id !== playingId
+        && !current.has(message.id)
+        && !reads[message.id]?.some(read => read.user_id === user.id)
+      );
+      
+      return added.length > 0 ? new Set([...current, ...added.map(message => message.id)]) : current;
+    });
+  }, [readsLoaded, user, messages, reads, playingId]);
+  
+  useEffect(() => {
+    if (!playingId) return;
+    
+    setUnheardIds(current => {
+      if (!current.has(playingId)) return current;
+      
+      const next = new Set(current);
+      next.delete(playingId);
+      return next;
+    });
+  }, [playingId]);
+  
+  // Messages from others count as read once they have been on screen
+  useEffect(() => {
+    if (isLoading || isOfflineCopy || !conversationId || !user) return;
+    
+    const unread = messages.filter(
+      message => message.sender_id !== user.id && !reads[message.id]?.some(read => read.user_id === user.id)
+    );
+    if (unread.length === 0) return;
+    
+    const observer = new IntersectionObserver((entries) => {
+      for (const entry of entries) {
+        if (!entry.isIntersecting) continue;
+        
+        observer.unobserve(entry.target);
+        useReadStore.getState().markRead({ id: entry.target.id.replace('message-', ''), conversationId });
+      }
+    }, { threshold: 0.6 });
+    
+    for (const message of unread) {
+      const element = document.getElementById(`message-${message.id}`);
+      if (element) observer.observe(element);
+    }
+    
+    return () => observer.disconnect();
+  }, [isLoading, isOfflineCopy, conversationId, user, messages, reads]);
+  
   const handleMessageSent = () => {
     // This is called after a new message is sent
     // We don't need to do anything here as the real-time subscription will update the UI
   };
   
+  useEffect(() => {
+    if (isLoading || !focusedMessageId) return;
+    
+    document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ block: 'center' });
+  }, [isLoading, focusedMessageId]);
+  
+  const showMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+  
   if (isLoading) {
     return (
       <div className="h-64 flex items-center justify-center">
@@ -168,64 +320,118 @@ const Conversation = () => {
           
           <div>
             <h1 className="text-lg font-semibold text-gray-900">
-              {participants
-                .filter(p => p.user_id !== user?.id)
-                .map(p => p.profile.full_name)
-                .join(', ')}
+              {conversationName}
             </h1>
             <p className="text-sm text-gray-500">
-              {participants.length} participants
+              {isOfflineCopy
+                ? "You're offline. Showing messages downloaded to this device."
+                : `${participants.length} participants`}
             </p>
           </div>
+          
+          {conversationId && !isOfflineCopy && (
+            <div className="ml-auto">
+              <OfflineDownloadButton
+                conversationId={conversationId}
+                participantIds={participants.map(p => p.user_id)}
+                messages={messages}
+              />
+            </div>
+          )}
         </div>
       </div>
       
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 ? (
+        {messages.length === 0 && pendingMessages.length === 0 ? (
           <div className="text-center py-12">
             <MessageSquare className="mx-auto h-12 w-12 text-gray-400" />
             <h3 className="mt-2 text-lg font-medium text-gray-900">No messages yet</h3>
             <p className="mt-1 text-sm text-gray-500">
-              Start the conversation by sending a voice message.
+              Start the conversation by sending a message.
             </p>
           </div>
         ) : (
           messages.map((message) => {
             const isOwnMessage = message.sender_id === user?.id;
+            const trackIndex = tracks.findIndex(track => track.messageId === message.id);
+            const hasSourceInView = messages.some(m => m.id === message.source_message_id);
+            const isTextMessage = !message.audio_url && message.text_transcript;
             
             return (
-              <div
-                key={message.id}
-                className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
-              >
-                <div className={`max-w-[80%] ${isOwnMessage ? 'order-1' : 'order-2'}`}>
-                  <div className={`flex items-center mb-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
-                    <span className="text-xs text-gray-500">
-                      {formatDate(message.created_at)}
-                    </span>
-                    <span className="mx-2 text-xs text-gray-400">•</span>
-                    <span className={`text-xs font-medium ${isOwnMessage ? 'text-primary-600' : 'text-gray-700'}`}>
-                      {message.sender.full_name}
-                    </span>
+              <Fragment key={message.id}>
+                {message.id === unheardTracks[0]?.messageId && (
+                  <UnheardDivider count={unheardTracks.length} onPlayAll={playUnheard} />
+                )}
+                
+                <div
+                  id={`message-${message.id}`}
+                  className={`flex rounded-lg ${isOwnMessage ? 'justify-end' : 'justify-start'} ${message.id === focusedMessageId ? 'ring-2 ring-primary-200 ring-offset-4' : ''}`}
+                >
+                  <div className={`max-w-[80%] ${isOwnMessage ? 'order-1' : 'order-2'}`}>
+                    <div className={`flex items-center mb-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
+                      <span className="text-xs text-gray-500">
+                        {formatDate(message.created_at)}
+                      </span>
+                      <span className="mx-2 text-xs text-gray-400">•</span>
+                      <span className={`text-xs font-medium ${isOwnMessage ? 'text-primary-600' : 'text-gray-700'}`}>
+                        {message.sender.full_name}
+                      </span>
+                    </div>
+                    
+                    {message.source_start_sec != null && message.source_end_sec != null && (
+                      <ClipSourceLabel
+                        startSec={message.source_start_sec}
+                        endSec={message.source_end_sec}
+                        onShowSource={hasSourceInView ? () => showMessage(message.source_message_id!) : undefined}
+                      />
+                    )}
+                    
+                    {isTextMessage ? (
+                      <div className={`rounded-lg px-4 py-2 ${
+                        isOwnMessage
+                          ? 'bg-primary-600 text-white'
+                          : 'bg-white border border-gray-200 text-gray-900'
+                      }`}>
+                        <p className="text-sm whitespace-pre-wrap">{message.text_transcript}</p>
+                      </div>
+                    ) : trackIndex >= 0 && (
+                      <AudioPlayer
+                        track={tracks[trackIndex]}
+                        queue={tracks.slice(trackIndex + 1)}
+                        waveformPeaks={message.waveform_peaks}
+                        isFavorited={!!favorites[message.id]}
+                      />
+                    )}
+                    
+                    {isOwnMessage && !isOfflineCopy && (
+                      <ReadReceipt
+                        readers={(reads[message.id] ?? [])
+                          .filter(read => read.user_id !== user?.id)
+                          .map(read => ({
+                            name: participants.find(p => p.user_id === read.user_id)?.profile.full_name ?? 'Someone',
+                            readAt: read.read_at,
+                          }))}
+                        showNames={participants.length > 2}
+                      />
+                    )}
                   </div>
-                  
-                  <AudioPlayer
-                    messageId={message.id}
-                    audioUrl={message.audio_url}
-                    duration={message.duration}
-                    isFavorited={!!favorites[message.id]}
-                  />
                 </div>
-              </div>
+              </Fragment>
             );
           })
         )}
+        
+        {pendingMessages.map((entry) => (
+          <OutboxMessage key={entry.id} entry={entry} />
+        ))}
       </div>
       
-      <AudioRecorder
-        conversationId={conversationId || ''}
-        onMessageSent={handleMessageSent}
-      />
+      {conversationId && (
+        <MessageInput
+          conversationId={conversationId}
+          onMessageSent={handleMessageSent}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { formatDate } from '../../lib/utils';
+import { useAuthStore } from '../../stores/authStore';
+import { useReadStore } from '../../stores/readStore';
+import Loading from '../../components/ui/Loading';
+import { MessageSquare, Users, Volume2 } from 'lucide-react';
+
+interface InboxMessage {
+  id: string;
+  conversation_id: string;
+  created_at: string;
+  sender_id: string;
+  audio_url: string | null;
+  text_transcript: string | null;
+}
+
+interface InboxParticipant {
+  conversation_id: string;
+  user_id: string;
+  role: 'client' | 'mentor' | 'training_director';
+  profile: {
+    full_name: string;
+  };
+}
+
+interface InboxConversation {
+  id: string;
+  participants: InboxParticipant[];
+  lastMessage: InboxMessage | null;
+}
+
+const Conversations = () => {
+  const [conversations, setConversations] = useState<InboxConversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuthStore();
+  const unread = useReadStore(state => state.unread);
+
+  useEffect(() => {
+    const fetchConversations = async () => {
+      if (!user) return;
+
+      setIsLoading(true);
+
+      try {
+        const { data: memberships, error: membershipsError } = await supabase
+          .from('conversation_participants')
+          .select('conversation_id')
+          .eq('user_id', user.id);
+
+        if (membershipsError) throw membershipsError;
+
+        const conversationIds = (memberships || []).map(row => row.conversation_id);
+
+        if (conversationIds.length === 0) {
+          setConversations([]);
+          return;
+        }
+
+        const [participantsResult, messagesResult] = await Promise.all([
+          supabase
+            .from('conversation_participants')
+            .select(`
+              conversation_id,
+              user_id,
+              role,
+              profile:profiles!conversation_participants_user_id_fkey(full_name)
+            `)
+            .in('conversation_id', conversationIds),
+          // Only the newest message of each conversation, not its whole history
+          supabase.rpc('latest_conversation_messages'),
+        ]);
+
+        if (participantsResult.error) throw participantsResult.error;
+        if (messagesResult.error) throw messagesResult.error;
+
+        const participants = (participantsResult.data || []).map(p => ({
+          ...p,
+          profile: Array.isArray(p.profile) ? p.profile[0] : p.profile
+        }));
+        const messages = (messagesResult.data || []) as InboxMessage[];
+
+        const inbox = conversationIds.map(id => {
+          const lastMessage = messages.find(message => message.conversation_id === id);
+
+          return {
+            id,
+            participants: participants.filter(p => p.conversation_id === id),
+            lastMessage: lastMessage ?? null,
+          };
+        });
+
+        // Most recent activity first; conversations without messages last
+        inbox.sort((a, b) =>
+          (b.lastMessage?.created_at ?? '').localeCompare(a.lastMessage?.created_at ?? '')
+        );
+
+        setConversations(inbox);
+      } catch (error) {
+        console.error('Error fetching conversations:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchConversations();
+  }, [user]);
+
+  if (isLoading) {
+    return (
+      <div className="h-64 flex items-center justify-center">
+        <Loading />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h1 className="text-lg font-semibold text-gray-900">Conversations</h1>
+        </div>
+
+        {conversations.length === 0 ? (
+          <div className="p-6 text-center">
+            <MessageSquare className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No conversations</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Start a conversation from your <Link to="/contacts" className="text-primary-600 hover:text-primary-700">contacts</Link>
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {conversations.map((conversation) => {
+              const others = conversation.participants.filter(p => p.user_id !== user?.id);
+              const name = others.map(p => p.profile.full_name).join(', ') || 'Conversation';
+              const unreadCount = unread[conversation.id] ?? 0;
+              const { lastMessage } = conversation;
+
+              return (
+                <li key={conversation.id}>
+                  <Link
+                    to={`/conversations/${conversation.id}`}
+                    className="p-4 hover:bg-gray-50 flex items-center space-x-4"
+                  >
+                    <div className="flex-shrink-0">
+                      <div className="h-12 w-12 rounded-full bg-gray-200 flex items-center justify-center text-gray-500">
+                        <Users className="h-6 w-6" aria-hidden="true" />
+                      </div>
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className={`text-sm truncate ${unreadCount > 0 ? 'font-semibold text-gray-900' : 'font-medium text-gray-900'}`}>
+                          {name}
+                        </p>
+                        {lastMessage && (
+                          <p className="flex-shrink-0 text-xs text-gray-500">
+                            {formatDate(lastMessage.created_at)}
+                          </p>
+                        )}
+                      </div>
+
+                      <p className="text-xs text-gray-500 truncate">
+                        {others.map(p => p.role.replace('_', ' ')).join(', ')}
+                      </p>
+
+                      <div className="flex items-center mt-1">
+                        {!lastMessage ? (
+                          <p className="text-sm text-gray-500">No messages yet</p>
+                        ) : lastMessage.audio_url ? (
+                          <div className="flex items-center text-gray-500 text-sm min-w-0">
+                            <Volume2 className="h-4 w-4 mr-1 flex-shrink-0" aria-hidden="true" />
+                            <span className="truncate">
+                              {lastMessage.sender_id === user?.id ? 'You sent a voice message' : 'Voice message'}
+                            </span>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-gray-500 truncate">
+                            {lastMessage.sender_id === user?.id && 'You: '}
+                            {lastMessage.text_transcript || 'No message content'}
+                          </p>
+                        )}
+
+                        {unreadCount > 0 && (
+                          <span className="ml-auto flex-shrink-0 bg-primary-500 text-white text-xs font-medium rounded-full h-5 min-w-[1.25rem] px-1.5 flex items-center justify-center">
+                            {unreadCount}
+                            <span className="sr-only"> unread</span>
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Conversations;
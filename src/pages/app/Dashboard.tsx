@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../stores/authStore';
+import { useReadStore } from '../../stores/readStore';
 import { supabase } from '../../lib/supabase';
 import { formatDate } from '../../lib/utils';
 import Loading from '../../components/ui/Loading';
@@ -11,7 +12,6 @@ interface RecentMessage {
   created_at: string;
   audio_url: string | null;
   text_transcript: string | null;
-  unread_count: number;
   sender: {
     id: string;
     full_name: string;
@@ -27,6 +27,7 @@ const Dashboard = () => {
   const [recentMessages, setRecentMessages] = useState<RecentMessage[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { user, profile } = useAuthStore();
+  const unread = useReadStore(state => state.unread);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -58,7 +59,6 @@ const Dashboard = () => {
           .filter(msg => msg.conversation && msg.conversation.client && msg.conversation.mentor)
           .map(msg => ({
             ...msg,
-            unread_count: Math.floor(Math.random() * 4), // Placeholder
             sender: Array.isArray(msg.sender) ? msg.sender[0] : msg.sender,
             conversation: {
               ...msg.conversation,
@@ -96,10 +96,7 @@ const Dashboard = () => {
   };
 
   const handleContactClick = (message: RecentMessage) => {
-    const otherPerson = getOtherParticipant(message);
-    if (otherPerson) {
-      navigate(`/messages/${otherPerson.id}`);
-    }
+    navigate(`/conversations/${message.conversation.id}`);
   };
 
   if (isLoading) {
@@ -131,6 +128,8 @@ const Dashboard = () => {
               const otherPerson = getOtherParticipant(message);
               if (!otherPerson) return null;
 
+              const unreadCount = unread[message.conversation.id] ?? 0;
+
               return (
                 <button
                   key={message.id}
@@ -165,9 +164,10 @@ const Dashboard = () => {
                         </p>
                       )}
 
-                      {message.unread_count > 0 && (
-                        <div className="ml-2 bg-primary-500 text-white text-xs font-medium rounded-full h-5 w-5 flex items-center justify-center">
-                          {message.unread_count}
+                      {unreadCount > 0 && (
+                        <div className="ml-2 bg-primary-500 text-white text-xs font-medium rounded-full h-5 min-w-[1.25rem] px-1.5 flex items-center justify-center">
+                          {unreadCount}
+                          <span className="sr-only"> unread</span>
                         </div>
                       )}
                     </div>
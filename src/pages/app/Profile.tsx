@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '../../stores/authStore';
 import { supabase } from '../../lib/supabase';
+import { formatPlaybackRate, parseSettings, PLAYBACK_RATES, type ProfileSettings } from '../../lib/settings';
+import { OFFLINE_BUDGET_BYTES } from '../../lib/offlineAudio';
+import { getOfflineUsage, useOfflineStore } from '../../stores/offlineStore';
 import Loading from '../../components/ui/Loading';
 import { User, Mail, UserCircle, AlertTriangle, CheckCircle } from 'lucide-react';
 
@@ -11,7 +14,8 @@ interface RelatedUser {
 }
 
 const Profile = () => {
-  const { profile, user, fetchProfile } = useAuthStore();
+  const { profile, user, fetchProfile, updateSettings } = useAuthStore();
+  const settings = parseSettings(profile?.settings);
   const [fullName, setFullName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -20,6 +24,19 @@ const Profile = () => {
   const [director, setDirector] = useState<RelatedUser | null>(null);
   const [clients, setClients] = useState<RelatedUser[]>([]);
   const [mentors, setMentors] = useState<RelatedUser[]>([]);
+  const { isSupported: isOfflineSupported, audio: offlineAudio, conversations: offlineConversations, removeConversation } = useOfflineStore();
+  const offlineUsageMb = getOfflineUsage(offlineAudio) / (1024 * 1024);
+  
+  const removeOfflineDownloads = async () => {
+    try {
+      for (const conversationId of Object.keys(offlineConversations)) {
+        await removeConversation(conversationId);
+      }
+    } catch (error) {
+      console.error('Error removing offline downloads:', error);
+      alert('Failed to remove offline downloads');
+    }
+  };
   
   useEffect(() => {
     if (profile) {
@@ -129,6 +146,19 @@ const Profile = () => {
     }
   };
   
+  const handleSettingChange = async (changes: Partial<ProfileSettings>) => {
+    setMessage(null);
+    
+    const { error } = await updateSettings(changes);
+    
+    if (error) {
+      setMessage({
+        type: 'error',
+        text: 'Failed to update preferences'
+      });
+    }
+  };
+  
   if (isLoading) {
     return (
       <div className="h-64 flex items-center justify-center">
@@ -238,6 +268,95 @@ const Profile = () => {
         </div>
       </div>
       
+      {/* Recording Preferences Section */}
+      <div className="mt-8 bg-white shadow rounded-lg overflow-hidden">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Recording Preferences</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Control how your voice messages are prepared before they are sent.
+          </p>
+        </div>
+        
+        <div className="p-6">
+          <label className="flex items-start">
+            <input
+              type="checkbox"
+              checked={settings.audio_cleanup}
+              onChange={(e) => handleSettingChange({ audio_cleanup: e.target.checked })}
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span className="ml-3">
+              <span className="block text-sm font-medium text-gray-900">Clean up audio before sending</span>
+              <span className="block text-sm text-gray-500">
+                Reduces background noise, evens out volume and trims silence at the start and end.
+                You can compare the original and cleaned-up audio before sending.
+              </span>
+            </span>
+          </label>
+        </div>
+      </div>
+      
+      {/* Playback Preferences Section */}
+      <div className="mt-8 bg-white shadow rounded-lg overflow-hidden">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Playback Preferences</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Choose how voice messages play when you open them.
+          </p>
+        </div>
+        
+        <div className="p-6">
+          <label htmlFor="playbackRate" className="block text-sm font-medium text-gray-700">
+            Default playback speed
+          </label>
+          <select
+            id="playbackRate"
+            value={settings.playback_rate}
+            onChange={(e) => handleSettingChange({ playback_rate: Number(e.target.value) })}
+            className="mt-1 block w-40 rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          >
+            {PLAYBACK_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate === 1 ? 'Normal (1×)' : formatPlaybackRate(rate)}
+              </option>
+            ))}
+          </select>
+          <p className="mt-2 text-sm text-gray-500">
+            You can still change the speed of any message from its player. Voices keep their natural pitch at every speed.
+          </p>
+        </div>
+      </div>
+      
+      {/* Offline Listening Section */}
+      {isOfflineSupported && (
+        <div className="mt-8 bg-white shadow rounded-lg overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Offline Listening</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Download a conversation from its page to listen without a connection. Downloads are removed when you sign out.
+            </p>
+          </div>
+          
+          <div className="p-6 flex items-center justify-between gap-4">
+            <div className="text-sm text-gray-700">
+              {Object.keys(offlineConversations).length} conversation{Object.keys(offlineConversations).length === 1 ? '' : 's'} downloaded,
+              using {offlineUsageMb.toFixed(1)} MB of {OFFLINE_BUDGET_BYTES / (1024 * 1024)} MB.
+              <p className="mt-1 text-gray-500">
+                When space runs out, the messages you played least recently are removed first.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={removeOfflineDownloads}
+              disabled={Object.keys(offlineConversations).length === 0}
+              className="flex-shrink-0 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Remove downloads
+            </button>
+          </div>
+        </div>
+      )}
+      
       {/* Relationships Section */}
       <div className="mt-8 bg-white shadow rounded-lg overflow-hidden">
         <div className="p-6 border-b border-gray-200">
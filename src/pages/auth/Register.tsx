@@ -7,7 +7,7 @@ const Register = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState<'client' | 'mentor' | 'training_director'>('client');
+  const [role, setRole] = useState<'client' | 'mentor'>('client');
   const [error, setError] = useState<string | null>(null);
   const { signUp, isLoading } = useAuthStore();
   const navigate = useNavigate();
@@ -122,12 +122,11 @@ const Register = () => {
             id="role"
             name="role"
             value={role}
-            onChange={(e) => setRole(e.target.value as 'client' | 'mentor' | 'training_director')}
+            onChange={(e) => setRole(e.target.value as 'client' | 'mentor')}
             className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
           >
             <option value="client">Client</option>
             <option value="mentor">Mentor</option>
-            <option value="training_director">Training Director</option>
           </select>
         </div>
         
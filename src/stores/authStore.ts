@@ -2,6 +2,9 @@ import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
 import type { Session, User } from '@supabase/supabase-js';
 import type { Database } from '../lib/database.types';
+import { parseSettings, type ProfileSettings } from '../lib/settings';
+import { DEFAULT_RECORDING_POLICY, parseRecordingPolicy, type RecordingPolicy } from '../lib/recordingPolicy';
+import { clearOfflineAudio } from '../lib/offlineAudio';
 
 type Profile = Database['public']['Tables']['profiles']['Row']; 
 
@@ -9,6 +12,7 @@ interface AuthState {
   session: Session | null;
   user: User | null;
   profile: Profile | null;
+  recordingPolicy: RecordingPolicy;
   isLoading: boolean;
   
   // Session management
@@ -18,10 +22,13 @@ interface AuthState {
   // Profile data
   setProfile: (profile: Profile | null) => void;
   fetchProfile: () => Promise<void>;
+  updateSettings: (changes: Partial<ProfileSettings>) => Promise<{ error: Error | null }>;
+  fetchRecordingPolicy: () => Promise<void>;
   
   // Auth methods
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
-  signUp: (email: string, password: string, fullName: string, role: 'client' | 'mentor' | 'training_director') => Promise<{ error: Error | null }>;
+  // Training directors are added by an administrator, not through sign-up
+  signUp: (email: string, password: string, fullName: string, role: 'client' | 'mentor') => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
 }
 
@@ -29,6 +36,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   session: null,
   user: null,
   profile: null,
+  recordingPolicy: DEFAULT_RECORDING_POLICY,
   isLoading: false,
   
   setSession: (session) => {
@@ -40,13 +48,14 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     // Fetch profile when session changes
     if (session?.user) {
       get().fetchProfile();
+      get().fetchRecordingPolicy();
     } else {
-      set({ profile: null });
+      set({ profile: null, recordingPolicy: DEFAULT_RECORDING_POLICY });
     }
   },
   
   clearSession: () => {
-    set({ session: null, user: null, profile: null });
+    set({ session: null, user: null, profile: null, recordingPolicy: DEFAULT_RECORDING_POLICY });
   },
   
   setProfile: (profile) => {
@@ -74,6 +83,45 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     set({ isLoading: false });
   },
   
+  updateSettings: async (changes) => {
+    const { user, profile } = get();
+    if (!user || !profile) return { error: new Error('Not signed in') };
+    
+    const settings = { ...parseSettings(profile.settings), ...changes };
+    
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ settings })
+      .eq('id', user.id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating settings:', error);
+      return { error: new Error('Failed to update settings') };
+    }
+    
+    set({ profile: data });
+    return { error: null };
+  },
+  
+  fetchRecordingPolicy: async () => {
+    const { user } = get();
+    if (!user) return;
+    
+    // Resolved server-side: the user's team policy for their role, or the default
+    const { data, error } = await supabase
+      .rpc('current_recording_policy')
+      .maybeSingle();
+    
+    if (error) {
+      console.error('Error fetching recording policy:', error);
+      return;
+    }
+    
+    set({ recordingPolicy: parseRecordingPolicy(data as RecordingPolicy | null) });
+  },
+  
   signIn: async (email, password) => {
     set({ isLoading: true });
     
@@ -125,6 +173,14 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   
   signOut: async () => {
     set({ isLoading: true });
+    
+    // Downloaded messages must not outlive the session on a shared device
+    try {
+      await clearOfflineAudio();
+    } catch (error) {
+      console.error('Error clearing offline downloads:', error);
+    }
+    
     await supabase.auth.signOut();
     set({ isLoading: false });
     get().clearSession();
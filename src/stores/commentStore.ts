@@ -0,0 +1,200 @@
+import { create } from 'zustand';
+import type { Database } from '../lib/database.types';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from './authStore';
+
+type CommentRow = Database['public']['Tables']['message_comments']['Row'];
+
+export interface MessageComment extends CommentRow {
+  author: {
+    id: string;
+    full_name: string;
+  };
+}
+
+/** A comment on part of a voice message, with its replies oldest first. */
+export interface CommentThread extends MessageComment {
+  start_sec: number;
+  end_sec: number;
+  replies: MessageComment[];
+}
+
+interface NewComment {
+  messageId: string;
+  body: string;
+  // A reply takes its range from the thread it belongs to
+  parentId?: string;
+  startSec?: number;
+  endSec?: number;
+}
+
+interface CommentState {
+  conversationId: string | null;
+  // Comments of the watched conversation, grouped by message id
+  byMessage: Record<string, MessageComment[]>;
+
+  watch: (conversationId: string) => () => void;
+  addComment: (comment: NewComment) => Promise<void>;
+  deleteComment: (comment: MessageComment) => Promise<void>;
+}
+
+const COMMENT_COLUMNS = `
+  *,
+  author:profiles!message_comments_author_id_fkey(id, full_name)
+`;
+
+const normalize = (comment: Record<string, unknown>) => ({
+  ...comment,
+  author: Array.isArray(comment.author) ? comment.author[0] : comment.author,
+}) as MessageComment;
+
+/** Groups a message's comments into threads ordered by where they start. */
+export function toThreads(comments: MessageComment[]): CommentThread[] {
+  return comments
+    .filter((comment): comment is CommentThread => comment.parent_id === null && comment.start_sec !== null)
+    .map(thread => ({
+      ...thread,
+      end_sec: thread.end_sec ?? thread.start_sec,
+      replies: comments.filter(reply => reply.parent_id === thread.id),
+    }))
+    .sort((a, b) => a.start_sec - b.start_sec || a.created_at.localeCompare(b.created_at));
+}
+
+export const useCommentStore = create<CommentState>((set, get) => {
+  // Realtime and our own inserts can both deliver a comment; keep one copy
+  const upsertLocal = (comment: MessageComment) => {
+    if (comment.conversation_id !== get().conversationId) return;
+
+    const current = get().byMessage[comment.message_id] ?? [];
+    const others = current.filter(c => c.id !== comment.id);
+
+    set({
+      byMessage: {
+        ...get().byMessage,
+        [comment.message_id]: [...others, comment].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      },
+    });
+  };
+
+  // Deleting a thread also removes its replies (the database cascades)
+  const removeLocal = (commentId: string) => {
+    const byMessage = Object.fromEntries(
+      Object.entries(get().byMessage).map(([messageId, comments]) => [
+        messageId,
+        comments.filter(c => c.id !== commentId && c.parent_id !== commentId),
+      ])
+    );
+
+    set({ byMessage });
+  };
+
+  const fetchComment = async (commentId: string) => {
+    const { data, error } = await supabase
+      .from('message_comments')
+      .select(COMMENT_COLUMNS)
+      .eq('id', commentId)
+      .single();
+
+    if (error) throw error;
+    return normalize(data);
+  };
+
+  return {
+    conversationId: null,
+    byMessage: {},
+
+    watch: (conversationId) => {
+      set({ conversationId, byMessage: {} });
+
+      const load = async () => {
+        try {
+          const { data, error } = await supabase
+            .from('message_comments')
+            .select(COMMENT_COLUMNS)
+            .eq('conversation_id', conversationId)
+            .order('created_at');
+
+          if (error) throw error;
+          if (get().conversationId !== conversationId) return;
+
+          const byMessage: Record<string, MessageComment[]> = {};
+          for (const comment of (data || []).map(normalize)) {
+            (byMessage[comment.message_id] ??= []).push(comment);
+          }
+
+          set({ byMessage });
+        } catch (error) {
+          console.error('Error fetching comments:', error);
+        }
+      };
+
+      load();
+
+      const subscription = supabase
+        .channel(`comments-${conversationId}`)
+        .on('postgres_changes',
+            {
+              event: '*',
+              schema: 'public',
+              table: 'message_comments',
+              filter: `conversation_id=eq.${conversationId}`
+            },
+            async (payload) => {
+              if (payload.eventType === 'DELETE') {
+                removeLocal(payload.old.id);
+                return;
+              }
+
+              try {
+                // The payload has no author name, so load the comment with it
+                upsertLocal(await fetchComment(payload.new.id));
+              } catch (error) {
+                console.error('Error fetching comment:', error);
+              }
+            }
+        )
+        .subscribe();
+
+      return () => {
+        subscription.unsubscribe();
+
+        if (get().conversationId === conversationId) {
+          set({ conversationId: null, byMessage: {} });
+        }
+      };
+    },
+
+    addComment: async ({ messageId, body, parentId, startSec, endSec }) => {
+      const userId = useAuthStore.getState().user?.id;
+      if (!userId) return;
+
+      const { data, error } = await supabase
+        .from('message_comments')
+        .insert({
+          message_id: messageId,
+          author_id: userId,
+          parent_id: parentId ?? null,
+          start_sec: parentId ? null : startSec,
+          end_sec: parentId ? null : endSec,
+          body,
+        })
+        .select(COMMENT_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      upsertLocal(normalize(data));
+    },
+
+    deleteComment: async (comment) => {
+      const { error } = await supabase
+        .from('message_comments')
+        .delete()
+        .eq('id', comment.id);
+
+      if (error) throw error;
+
+      removeLocal(comment.id);
+    },
+  };
+});
@@ -0,0 +1,108 @@
+import { create } from 'zustand';
+import { idbDelete, idbGetAll, idbPut, STORES } from '../lib/idb';
+import { useAuthStore } from './authStore';
+
+/**
+ * A recording that hasn't been sent yet, saved as it is captured so it
+ * survives reloads, crashes and navigating away.
+ */
+export interface RecordingDraft {
+  id: string; // `${senderId}:${conversationId}`
+  conversationId: string;
+  senderId: string;
+  createdAt: string;
+  updatedAt: string;
+  status: 'recording' | 'recorded';
+  mimeType: string;
+  // Raw recorder chunks, one array per recorder segment
+  segments: Blob[][];
+  elapsedMs: number;
+  // Chunks of the first segment also streamed to storage under this id
+  streamedRecordingId?: string | null;
+  // Set once recording has stopped and the audio has been processed
+  blob: Blob | null;
+  duration: number | null;
+}
+
+export const draftId = (senderId: string, conversationId: string) => `${senderId}:${conversationId}`;
+
+const without = (drafts: Record<string, RecordingDraft>, conversationId: string) => {
+  const rest = { ...drafts };
+  delete rest[conversationId];
+  return rest;
+};
+
+interface DraftState {
+  // Drafts not currently held by a mounted recorder, by conversation id
+  drafts: Record<string, RecordingDraft>;
+  isLoaded: boolean;
+
+  load: () => Promise<void>;
+  save: (draft: RecordingDraft) => Promise<void>;
+  release: (draft: RecordingDraft) => void;
+  take: (conversationId: string) => RecordingDraft | null;
+  remove: (conversationId: string) => Promise<void>;
+}
+
+export const useDraftStore = create<DraftState>((set, get) => ({
+  drafts: {},
+  isLoaded: false,
+
+  load: async () => {
+    const userId = useAuthStore.getState().user?.id;
+
+    try {
+      const stored = await idbGetAll<RecordingDraft>(STORES.drafts);
+      const drafts: Record<string, RecordingDraft> = {};
+
+      for (const draft of stored) {
+        if (draft.senderId === userId) {
+          drafts[draft.conversationId] = draft;
+        }
+      }
+
+      set({ drafts, isLoaded: true });
+    } catch (error) {
+      console.error('Error loading recording drafts:', error);
+      set({ isLoaded: true });
+    }
+  },
+
+  save: async (draft) => {
+    // Keep a released copy current, e.g. for the last chunk after unmount
+    if (get().drafts[draft.conversationId]) {
+      set({ drafts: { ...get().drafts, [draft.conversationId]: draft } });
+    }
+
+    try {
+      await idbPut(STORES.drafts, draft);
+    } catch (error) {
+      console.error('Error saving recording draft:', error);
+    }
+  },
+
+  release: (draft) => {
+    set({ drafts: { ...get().drafts, [draft.conversationId]: draft } });
+  },
+
+  take: (conversationId) => {
+    const draft = get().drafts[conversationId] ?? null;
+    if (draft) {
+      set({ drafts: without(get().drafts, conversationId) });
+    }
+    return draft;
+  },
+
+  remove: async (conversationId) => {
+    const userId = useAuthStore.getState().user?.id;
+    set({ drafts: without(get().drafts, conversationId) });
+
+    if (!userId) return;
+
+    try {
+      await idbDelete(STORES.drafts, draftId(userId, conversationId));
+    } catch (error) {
+      console.error('Error deleting recording draft:', error);
+    }
+  },
+}));
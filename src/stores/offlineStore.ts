@@ -0,0 +1,229 @@
+import { create } from 'zustand';
+import { toStoragePath } from '../lib/audioUrls';
+import {
+  deleteOfflineAudio,
+  deleteOfflineConversation,
+  downloadAudio,
+  isOfflineSupported,
+  loadOfflineIndex,
+  OFFLINE_BUDGET_BYTES,
+  offlineAudioServiceUrl,
+  readOfflineAudio,
+  saveOfflineAudio,
+  saveOfflineConversation,
+  touchOfflineAudio,
+  type OfflineAudio,
+  type OfflineConversation,
+  type OfflineMessage,
+} from '../lib/offlineAudio';
+import { useAuthStore } from './authStore';
+
+interface DownloadProgress {
+  done: number;
+  total: number;
+}
+
+interface DownloadResult {
+  saved: number;
+  // Messages left out because they didn't fit in the storage budget
+  skipped: number;
+  failed: number;
+}
+
+interface OfflineState {
+  isSupported: boolean;
+  isLoaded: boolean;
+  conversations: Record<string, OfflineConversation>;
+  // Downloaded files by storage path
+  audio: Record<string, OfflineAudio>;
+  // Conversations being downloaded
+  progress: Record<string, DownloadProgress>;
+
+  load: () => Promise<void>;
+  downloadConversation: (conversation: { id: string; participantIds: string[]; messages: OfflineMessage[] }) => Promise<DownloadResult>;
+  removeConversation: (conversationId: string) => Promise<void>;
+  findConversation: (participantIds: string[]) => OfflineConversation | null;
+  getAudioUrl: (audioUrl: string) => string | null;
+  readAudio: (audioUrl: string) => Promise<string | null>;
+  reset: () => void;
+}
+
+export const getOfflineUsage = (audio: Record<string, OfflineAudio>) =>
+  Object.values(audio).reduce((total, entry) => total + entry.size, 0);
+
+export const useOfflineStore = create<OfflineState>((set, get) => {
+  // Record that a file was played so it is the last to be evicted
+  const touch = (audioUrl: string) => {
+    const entry = get().audio[toStoragePath(audioUrl)];
+    if (!entry) return null;
+
+    const touched = { ...entry, lastUsedAt: Date.now() };
+    set({ audio: { ...get().audio, [entry.path]: touched } });
+    touchOfflineAudio(touched).catch(error => console.error('Error updating offline audio:', error));
+
+    return touched;
+  };
+
+  const removeAudio = async (path: string) => {
+    await deleteOfflineAudio(path);
+
+    const audio = { ...get().audio };
+    delete audio[path];
+    set({ audio });
+  };
+
+  // Evict the least recently played files, other than `keep`, until `size`
+  // more bytes fit in the budget
+  const makeRoom = async (size: number, keep: Set<string>) => {
+    const evictable = Object.values(get().audio)
+      .filter(entry => !keep.has(entry.path))
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+
+    while (getOfflineUsage(get().audio) + size > OFFLINE_BUDGET_BYTES) {
+      const oldest = evictable.shift();
+      if (!oldest) return false;
+      await removeAudio(oldest.path);
+    }
+
+    return true;
+  };
+
+  return {
+    isSupported: isOfflineSupported(),
+    isLoaded: false,
+    conversations: {},
+    audio: {},
+    progress: {},
+
+    load: async () => {
+      const userId = useAuthStore.getState().user?.id;
+      if (!userId || !get().isSupported) return;
+
+      try {
+        const index = await loadOfflineIndex(userId);
+
+        set({
+          isLoaded: true,
+          conversations: Object.fromEntries(index.conversations.map(c => [c.id, c])),
+          audio: Object.fromEntries(index.audio.map(a => [a.path, a])),
+        });
+      } catch (error) {
+        console.error('Error loading offline downloads:', error);
+      }
+    },
+
+    downloadConversation: async ({ id, participantIds, messages }) => {
+      const userId = useAuthStore.getState().user?.id;
+      if (!userId) return { saved: 0, skipped: 0, failed: 0 };
+
+      const conversation: OfflineConversation = {
+        id,
+        userId,
+        participantIds,
+        savedAt: new Date().toISOString(),
+        messages,
+      };
+      await saveOfflineConversation(conversation);
+      set({ conversations: { ...get().conversations, [id]: conversation } });
+
+      // Newest first, so the budget goes to what is most likely to be played
+      const audioMessages = messages
+        .filter(message => !!message.audio_url)
+        .reverse();
+      const keep = new Set(audioMessages.map(message => toStoragePath(message.audio_url!)));
+      const result = { saved: 0, skipped: 0, failed: 0 };
+
+      const setProgress = (done: number) => {
+        set({ progress: { ...get().progress, [id]: { done, total: audioMessages.length } } });
+      };
+
+      setProgress(0);
+
+      for (const [index, message] of audioMessages.entries()) {
+        const path = toStoragePath(message.audio_url!);
+
+        if (get().audio[path]) {
+          result.saved++;
+        } else {
+          try {
+            const blob = await downloadAudio(message.audio_url!);
+
+            if (!(await makeRoom(blob.size, keep))) {
+              result.skipped = audioMessages.length - index;
+              break;
+            }
+
+            const entry: OfflineAudio = {
+              path,
+              userId,
+              conversationId: id,
+              messageId: message.id,
+              size: blob.size,
+              lastUsedAt: Date.now(),
+            };
+            await saveOfflineAudio(entry, blob);
+            set({ audio: { ...get().audio, [path]: entry } });
+            result.saved++;
+          } catch (error) {
+            console.error('Error downloading message for offline use:', error);
+            result.failed++;
+          }
+        }
+
+        setProgress(index + 1);
+      }
+
+      const progress = { ...get().progress };
+      delete progress[id];
+      set({ progress });
+
+      return result;
+    },
+
+    removeConversation: async (conversationId) => {
+      const paths = Object.values(get().audio)
+        .filter(entry => entry.conversationId === conversationId)
+        .map(entry => entry.path);
+
+      for (const path of paths) {
+        await removeAudio(path);
+      }
+
+      await deleteOfflineConversation(conversationId);
+
+      const conversations = { ...get().conversations };
+      delete conversations[conversationId];
+      set({ conversations });
+    },
+
+    findConversation: (participantIds) =>
+      Object.values(get().conversations).find(conversation =>
+        participantIds.every(id => conversation.participantIds.includes(id))
+      ) ?? null,
+
+    // Synchronous, so playback can start within the click that asked for it
+    getAudioUrl: (audioUrl) => {
+      if (!get().audio[toStoragePath(audioUrl)]) return null;
+
+      const url = offlineAudioServiceUrl(audioUrl);
+      if (url) touch(audioUrl);
+      return url;
+    },
+
+    readAudio: async (audioUrl) => {
+      if (!touch(audioUrl)) return null;
+
+      try {
+        return await readOfflineAudio(audioUrl);
+      } catch (error) {
+        console.error('Error reading offline audio:', error);
+        return null;
+      }
+    },
+
+    // Only forgets what is in memory; signing out deletes the downloads
+    reset: () => {
+      set({ isLoaded: false, conversations: {}, audio: {}, progress: {} });
+    },
+  };
+});
@@ -0,0 +1,218 @@
+import { create } from 'zustand';
+import { idbDelete, idbGetAll, idbPut, STORES } from '../lib/idb';
+import { canSendNow, checkRecording, describeBusinessHours } from '../lib/recordingPolicy';
+import { isPermanentUploadError, uploadVoiceMessage, type VoiceMessageUpload } from '../lib/voiceMessages';
+import { useAuthStore } from './authStore';
+
+// 'rejected' entries were refused by the server and aren't retried automatically
+export type OutboxStatus = 'pending' | 'sending' | 'failed' | 'rejected';
+
+export interface OutboxEntry extends VoiceMessageUpload {
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  // For rejected entries, why the server refused the message
+  lastError: string | null;
+}
+
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+
+const retryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+
+// The server only says the message was refused; the sender's recording policy
+// usually tells why
+const describeRejection = (entry: OutboxEntry, error: unknown) => {
+  const { recordingPolicy } = useAuthStore.getState();
+
+  if (!canSendNow(recordingPolicy)) {
+    return `Messages can only be sent ${describeBusinessHours(recordingPolicy)}.`;
+  }
+
+  const violation = checkRecording(recordingPolicy, { duration: entry.duration, size: entry.blob.size });
+  if (violation) return violation;
+
+  if ((error as { code?: string })?.code === '42501') {
+    return 'You are not allowed to send this message.';
+  }
+
+  return (error as { message?: string })?.message ?? 'The message was refused.';
+};
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  isLoaded: boolean;
+  isFlushing: boolean;
+
+  // Lifecycle
+  start: () => () => void;
+  load: () => Promise<void>;
+
+  // Queue management
+  enqueue: (message: Omit<VoiceMessageUpload, 'id'> & { id?: string }) => Promise<string>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+  flush: (force?: boolean) => Promise<void>;
+}
+
+let retryTimer: number | null = null;
+
+export const useOutboxStore = create<OutboxState>((set, get) => {
+  const updateEntry = async (id: string, changes: Partial<OutboxEntry>) => {
+    const entry = get().entries.find(e => e.id === id);
+    if (!entry) return;
+
+    const updated = { ...entry, ...changes };
+    set({ entries: get().entries.map(e => (e.id === id ? updated : e)) });
+    await idbPut(STORES.outbox, updated);
+  };
+
+  const removeEntry = async (id: string) => {
+    set({ entries: get().entries.filter(e => e.id !== id) });
+    await idbDelete(STORES.outbox, id);
+  };
+
+  const scheduleFlush = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+
+    const userId = useAuthStore.getState().user?.id;
+    const waiting = get().entries.filter(e =>
+      e.senderId === userId
+      && e.status !== 'sending'
+      && e.status !== 'rejected'
+    );
+    if (waiting.length === 0) return;
+
+    const nextAttemptAt = Math.min(...waiting.map(e => e.nextAttemptAt));
+    retryTimer = window.setTimeout(() => {
+      retryTimer = null;
+      get().flush();
+    }, Math.max(0, nextAttemptAt - Date.now()));
+  };
+
+  return {
+    entries: [],
+    isLoaded: false,
+    isFlushing: false,
+
+    start: () => {
+      const handleOnline = () => {
+        get().flush(true);
+      };
+
+      window.addEventListener('online', handleOnline);
+      get().load().then(() => get().flush());
+
+      return () => {
+        window.removeEventListener('online', handleOnline);
+        if (retryTimer) {
+          clearTimeout(retryTimer);
+          retryTimer = null;
+        }
+      };
+    },
+
+    load: async () => {
+      try {
+        const stored = await idbGetAll<OutboxEntry>(STORES.outbox);
+
+        // Anything left in "sending" was interrupted by a reload
+        const entries = stored
+          .map(entry => (entry.status === 'sending' ? { ...entry, status: 'pending' as const } : entry))
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+        set({ entries, isLoaded: true });
+      } catch (error) {
+        console.error('Error loading outbox:', error);
+        set({ isLoaded: true });
+      }
+    },
+
+    enqueue: async (message) => {
+      const entry: OutboxEntry = {
+        ...message,
+        id: message.id ?? crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+        lastError: null,
+      };
+
+      // Persist before anything else so the recording survives a failed send
+      await idbPut(STORES.outbox, entry);
+      set({ entries: [...get().entries, entry] });
+
+      get().flush();
+      return entry.id;
+    },
+
+    retry: async (id) => {
+      await updateEntry(id, { status: 'pending', nextAttemptAt: Date.now() });
+      await get().flush();
+    },
+
+    discard: async (id) => {
+      await removeEntry(id);
+      scheduleFlush();
+    },
+
+    flush: async (force = false) => {
+      if (get().isFlushing) return;
+      if (!navigator.onLine) {
+        scheduleFlush();
+        return;
+      }
+
+      set({ isFlushing: true });
+
+      try {
+        const now = Date.now();
+        const userId = useAuthStore.getState().user?.id;
+
+        // Only the signed-in sender can upload; other users' entries wait for them
+        const due = get().entries.filter(e =>
+          e.senderId === userId
+          && e.status !== 'sending'
+          && e.status !== 'rejected'
+          && (force || e.nextAttemptAt <= now)
+        );
+
+        // Send oldest first so messages arrive in the order they were recorded
+        for (const entry of due) {
+          await updateEntry(entry.id, { status: 'sending', attempts: entry.attempts + 1 });
+
+          try {
+            await uploadVoiceMessage(entry);
+            await removeEntry(entry.id);
+          } catch (error) {
+            console.error('Error sending queued voice message:', error);
+
+            if (isPermanentUploadError(error)) {
+              await updateEntry(entry.id, {
+                status: 'rejected',
+                lastError: describeRejection(entry, error),
+              });
+              continue;
+            }
+
+            const attempts = entry.attempts + 1;
+            await updateEntry(entry.id, {
+              status: 'failed',
+              nextAttemptAt: Date.now() + retryDelay(attempts),
+              lastError: (error as { message?: string })?.message ?? 'Upload failed',
+            });
+          }
+        }
+      } finally {
+        set({ isFlushing: false });
+        scheduleFlush();
+      }
+    },
+  };
+});
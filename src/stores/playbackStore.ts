@@ -0,0 +1,593 @@
+import { create } from 'zustand';
+import {
+  clearAudioUrlCache,
+  describeAudioError,
+  describeMediaError,
+  getAudioUrl,
+  getCachedAudioUrl,
+  invalidateAudioUrl,
+} from '../lib/audioUrls';
+import { DEFAULT_SETTINGS } from '../lib/settings';
+import { supabase } from '../lib/supabase';
+import { formatDate } from '../lib/utils';
+import { useAuthStore } from './authStore';
+import { useOfflineStore } from './offlineStore';
+
+/** A voice message as the app-wide player needs it. */
+export interface PlaybackTrack {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  // Storage path in the `voices` bucket
+  audioUrl: string;
+  duration: number;
+  mimeType?: string | null;
+  senderName: string;
+  createdAt: string;
+  // Who the conversation is with, for lock-screen and notification controls
+  conversationName?: string;
+}
+
+interface TrackSource {
+  id: string;
+  created_at: string;
+  sender_id: string;
+  audio_url?: string | null;
+  duration?: number | null;
+  mime_type?: string | null;
+  sender: { full_name: string };
+}
+
+/** The voice messages of a conversation, in order, skipping text messages. */
+export function toPlaybackTracks(messages: TrackSource[], conversationId: string, conversationName?: string): PlaybackTrack[] {
+  return messages
+    .filter(message => !!message.audio_url)
+    .map(message => ({
+      messageId: message.id,
+      conversationId,
+      senderId: message.sender_id,
+      audioUrl: message.audio_url!,
+      duration: message.duration ?? 0,
+      mimeType: message.mime_type,
+      senderName: message.sender.full_name,
+      createdAt: message.created_at,
+      conversationName,
+    }));
+}
+
+interface PlayOptions {
+  // Tracks to continue with once this one ends
+  queue?: PlaybackTrack[];
+  startAt?: number;
+}
+
+/** A passage to replay, e.g. for a practice exercise. */
+export interface LoopSettings {
+  start: number;
+  end: number;
+  // Silence between repetitions
+  gapSec: number;
+  // Stop after this many repetitions; null repeats until stopped
+  repeatLimit: number | null;
+}
+
+export interface LoopRegion extends LoopSettings {
+  messageId: string;
+}
+
+interface PlaybackState {
+  track: PlaybackTrack | null;
+  queue: PlaybackTrack[];
+  isPlaying: boolean;
+  isLoading: boolean;
+  currentTime: number;
+  // Length measured by the browser, once the metadata has loaded
+  mediaDuration: number | null;
+  playbackRate: number;
+  error: string | null;
+  // Where the user stopped in messages they've only partly heard, by id
+  positions: Record<string, number>;
+  loop: LoopRegion | null;
+  // Repetitions of the loop played so far
+  loopCount: number;
+  // Pausing between repetitions
+  isLoopGap: boolean;
+
+  play: (track: PlaybackTrack, options?: PlayOptions) => Promise<void>;
+  toggle: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  skip: (seconds: number) => void;
+  next: () => void;
+  stop: () => void;
+  setPlaybackRate: (rate: number) => void;
+  setLoop: (loop: LoopRegion | null) => void;
+  fetchPositions: (messageIds: string[]) => Promise<void>;
+  reset: () => void;
+}
+
+// Positions this close to either end aren't worth resuming from
+const RESUME_MARGIN_SEC = 5;
+const POSITION_SAVE_INTERVAL_MS = 5_000;
+// `timeupdate` only fires every ~250ms, too coarse to end a loop on time
+const LOOP_CHECK_INTERVAL_MS = 50;
+
+// The one element all voice messages play through, so only one can play at a
+// time and playback carries on while the user moves between pages
+const audio = new Audio();
+audio.preload = 'auto';
+audio.preservesPitch = true;
+
+export const getPlaybackElement = () => audio;
+
+export const usePlaybackStore = create<PlaybackState>((set, get) => {
+  // The track whose file is loaded in the element; `track` switches before
+  // the new file has been fetched
+  let loadedTrack: PlaybackTrack | null = null;
+  let lastSavedAt = 0;
+  // Whether the loaded track's URL has already been re-signed after an error
+  let hasRefreshedUrl = false;
+  let loopInterval: number | null = null;
+  let loopGapTimer: number | null = null;
+
+  const loadSource = (track: PlaybackTrack, url: string, startAt: number) => {
+    audio.src = url;
+    loadedTrack = track;
+    // Loading a new source resets playbackRate to defaultPlaybackRate
+    audio.defaultPlaybackRate = get().playbackRate;
+    audio.playbackRate = get().playbackRate;
+    audio.currentTime = startAt;
+  };
+
+  // Signed URLs expire after an hour, and the element then fails with a
+  // network or "not supported" error; sign a new one and carry on from the
+  // same spot
+  const refreshSource = async (track: PlaybackTrack) => {
+    const time = audio.currentTime;
+    const wasPlaying = get().isPlaying;
+
+    invalidateAudioUrl(track.audioUrl);
+    set({ isLoading: true });
+
+    try {
+      const url = await getAudioUrl(track.audioUrl);
+      if (loadedTrack !== track) return;
+
+      loadSource(track, url, time);
+      if (wasPlaying) {
+        startPlayback();
+      } else {
+        set({ isLoading: false });
+      }
+    } catch (error) {
+      console.error('Error refreshing audio URL:', error);
+      if (loadedTrack !== track) return;
+      set({ error: describeAudioError(error), isPlaying: false, isLoading: false });
+    }
+  };
+
+  const savePosition = (track: PlaybackTrack, time: number) => {
+    const userId = useAuthStore.getState().user?.id;
+    if (!userId) return;
+
+    lastSavedAt = Date.now();
+
+    const length = (loadedTrack === track ? get().mediaDuration : null) ?? track.duration;
+    const isResumable = time >= RESUME_MARGIN_SEC && time <= length - RESUME_MARGIN_SEC;
+    const position = isResumable ? Math.round(time * 10) / 10 : 0;
+
+    const positions = { ...get().positions };
+    if ((positions[track.messageId] ?? 0) === position) return;
+
+    if (position) {
+      positions[track.messageId] = position;
+    } else {
+      delete positions[track.messageId];
+    }
+    set({ positions });
+
+    const request = position
+      ? supabase.from('playback_positions').upsert({
+          user_id: userId,
+          message_id: track.messageId,
+          position_sec: position,
+          updated_at: new Date().toISOString(),
+        })
+      : supabase.from('playback_positions').delete().match({ user_id: userId, message_id: track.messageId });
+
+    request.then(({ error }) => {
+      if (error) console.error('Error saving playback position:', error);
+    });
+  };
+
+  const unload = () => {
+    if (loadedTrack) savePosition(loadedTrack, audio.currentTime);
+    loadedTrack = null;
+    audio.pause();
+  };
+
+  const startPlayback = () => {
+    audio.play().catch(error => {
+      // A newer play request or source change interrupted this one
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+
+      // Autoplay was blocked, e.g. advancing after the tab lost focus on iOS
+      if (error instanceof DOMException && error.name === 'NotAllowedError') {
+        set({ isPlaying: false, isLoading: false });
+        return;
+      }
+
+      console.error('Playback failed:', error);
+      set({ error: 'Unable to play the audio file', isPlaying: false, isLoading: false });
+    });
+  };
+
+  const cancelLoopGap = () => {
+    if (loopGapTimer !== null) {
+      clearTimeout(loopGapTimer);
+      loopGapTimer = null;
+    }
+    if (get().isLoopGap) set({ isLoopGap: false });
+  };
+
+  const isLooping = () => {
+    const { loop, track } = get();
+    return !!loop && loop.messageId === track?.messageId && loadedTrack === track;
+  };
+
+  // Back to A for the next repetition, or stop once the limit is reached
+  const repeatLoop = () => {
+    const { loop, loopCount } = get();
+    if (!loop) return;
+
+    const count = loopCount + 1;
+    audio.currentTime = loop.start;
+
+    if (loop.repeatLimit !== null && count >= loop.repeatLimit) {
+      audio.pause();
+      set({ loopCount: count, currentTime: loop.start });
+      return;
+    }
+
+    set({ loopCount: count, currentTime: loop.start });
+
+    if (loop.gapSec > 0) {
+      audio.pause();
+      set({ isLoopGap: true });
+      loopGapTimer = window.setTimeout(() => {
+        loopGapTimer = null;
+        set({ isLoopGap: false });
+        startPlayback();
+      }, loop.gapSec * 1000);
+    } else if (audio.paused) {
+      startPlayback();
+    }
+  };
+
+  const checkLoop = () => {
+    if (isLooping() && !audio.paused && audio.currentTime >= get().loop!.end) {
+      repeatLoop();
+    }
+  };
+
+  audio.addEventListener('play', () => set({ isPlaying: true }));
+  audio.addEventListener('pause', () => {
+    set({ isPlaying: false });
+    if (loadedTrack) savePosition(loadedTrack, audio.currentTime);
+  });
+  audio.addEventListener('waiting', () => set({ isLoading: true }));
+  audio.addEventListener('playing', () => set({ isLoading: false }));
+  audio.addEventListener('canplay', () => set({ isLoading: false }));
+  audio.addEventListener('timeupdate', () => {
+    set({ currentTime: audio.currentTime });
+
+    if (loadedTrack && !audio.paused && Date.now() - lastSavedAt > POSITION_SAVE_INTERVAL_MS) {
+      savePosition(loadedTrack, audio.currentTime);
+    }
+  });
+
+  // The tab may be closed without a pause event, e.g. on mobile
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden' && loadedTrack) {
+      savePosition(loadedTrack, audio.currentTime);
+    }
+  });
+
+  const updateDuration = () => {
+    set({ mediaDuration: Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : null });
+  };
+  audio.addEventListener('loadedmetadata', updateDuration);
+  audio.addEventListener('durationchange', updateDuration);
+
+  audio.addEventListener('ended', () => {
+    // A loop that runs to the end of the message starts over instead
+    if (isLooping()) {
+      repeatLoop();
+      return;
+    }
+
+    get().next();
+  });
+
+  audio.addEventListener('error', () => {
+    // Clearing the source on stop also fires an error; ignore it
+    if (!loadedTrack || !audio.getAttribute('src')) return;
+
+    const code = audio.error?.code;
+    if (!hasRefreshedUrl && (code === MediaError.MEDIA_ERR_NETWORK || code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED)) {
+      hasRefreshedUrl = true;
+      refreshSource(loadedTrack);
+      return;
+    }
+
+    console.error('Audio playback error:', audio.error);
+    set({ error: describeMediaError(audio.error), isPlaying: false, isLoading: false });
+  });
+
+  return {
+    track: null,
+    queue: [],
+    isPlaying: false,
+    isLoading: false,
+    currentTime: 0,
+    mediaDuration: null,
+    playbackRate: DEFAULT_SETTINGS.playback_rate,
+    error: null,
+    positions: {},
+    loop: null,
+    loopCount: 0,
+    isLoopGap: false,
+
+    play: async (track, { queue, startAt } = {}) => {
+      const current = get().track;
+      cancelLoopGap();
+
+      // Playing again after the loop finished starts a new round
+      const { loop, loopCount } = get();
+      if (loop && loop.repeatLimit !== null && loopCount >= loop.repeatLimit) {
+        set({ loopCount: 0 });
+      }
+      if (loop && loop.messageId !== track.messageId) {
+        get().setLoop(null);
+      }
+
+      if (current?.messageId === track.messageId && !get().error) {
+        if (queue) set({ queue });
+        if (startAt !== undefined) get().seek(startAt);
+        startPlayback();
+        return;
+      }
+
+      // Pick up where the user left off unless told otherwise
+      const resumeAt = startAt ?? get().positions[track.messageId] ?? 0;
+
+      unload();
+      set({
+        track,
+        queue: queue ?? [],
+        isPlaying: false,
+        isLoading: true,
+        currentTime: resumeAt,
+        mediaDuration: null,
+        error: null,
+      });
+
+      try {
+        // Use a downloaded copy or cached URL straight away where possible:
+        // some browsers only allow play() within the click that asked for it
+        const offline = useOfflineStore.getState();
+        const url = offline.getAudioUrl(track.audioUrl)
+          ?? getCachedAudioUrl(track.audioUrl)
+          ?? (await offline.readAudio(track.audioUrl))
+          ?? (await getAudioUrl(track.audioUrl));
+
+        // Another message was started while this one was loading
+        if (get().track !== track) return;
+
+        hasRefreshedUrl = false;
+        loadSource(track, url, resumeAt);
+        startPlayback();
+      } catch (error) {
+        console.error('Error fetching audio:', error);
+        if (get().track !== track) return;
+        set({ error: describeAudioError(error), isLoading: false });
+      }
+    },
+
+    toggle: () => {
+      const { track, isPlaying, isLoopGap } = get();
+      if (!track) return;
+
+      if (isPlaying || isLoopGap) {
+        cancelLoopGap();
+        audio.pause();
+      } else {
+        get().play(track);
+      }
+    },
+
+    pause: () => {
+      cancelLoopGap();
+      audio.pause();
+    },
+
+    seek: (time) => {
+      const { track, mediaDuration } = get();
+      if (!track) return;
+
+      const newTime = Math.max(0, Math.min(time, mediaDuration ?? track.duration));
+      audio.currentTime = newTime;
+      set({ currentTime: newTime });
+    },
+
+    skip: (seconds) => {
+      get().seek(audio.currentTime + seconds);
+    },
+
+    next: () => {
+      const [upcoming, ...rest] = get().queue;
+
+      if (upcoming) {
+        get().play(upcoming, { queue: rest });
+        return;
+      }
+
+      // End of the queue: stay on the last message, rewound, like a single player
+      audio.pause();
+      audio.currentTime = 0;
+      set({ isPlaying: false, currentTime: 0 });
+    },
+
+    stop: () => {
+      get().setLoop(null);
+      unload();
+      audio.removeAttribute('src');
+      audio.load();
+      set({
+        track: null,
+        queue: [],
+        isPlaying: false,
+        isLoading: false,
+        currentTime: 0,
+        mediaDuration: null,
+        error: null,
+      });
+    },
+
+    setPlaybackRate: (rate) => {
+      audio.defaultPlaybackRate = rate;
+      audio.playbackRate = rate;
+      set({ playbackRate: rate });
+    },
+
+    setLoop: (loop) => {
+      cancelLoopGap();
+
+      if (loopInterval !== null) {
+        clearInterval(loopInterval);
+        loopInterval = null;
+      }
+
+      const isSameLoop = !!loop && get().loop?.messageId === loop.messageId;
+      set({ loop, loopCount: isSameLoop ? get().loopCount : 0 });
+      if (!loop) return;
+
+      loopInterval = window.setInterval(checkLoop, LOOP_CHECK_INTERVAL_MS);
+
+      // Moving the loop away from the playhead takes the playhead with it
+      const { track } = get();
+      if (track?.messageId === loop.messageId && loadedTrack === track &&
+          (audio.currentTime < loop.start || audio.currentTime > loop.end)) {
+        get().seek(loop.start);
+      }
+    },
+
+    fetchPositions: async (messageIds) => {
+      const userId = useAuthStore.getState().user?.id;
+      if (!userId || messageIds.length === 0) return;
+
+      const { data, error } = await supabase
+        .from('playback_positions')
+        .select('message_id, position_sec')
+        .eq('user_id', userId)
+        .in('message_id', messageIds);
+
+      if (error) {
+        console.error('Error fetching playback positions:', error);
+        return;
+      }
+
+      const positions = { ...get().positions };
+      for (const row of data) {
+        // The loaded message's position is newer than what the server has
+        if (row.message_id !== loadedTrack?.messageId) {
+          positions[row.message_id] = Number(row.position_sec);
+        }
+      }
+      set({ positions });
+    },
+
+    reset: () => {
+      get().stop();
+      clearAudioUrlCache();
+      set({ positions: {} });
+    },
+  };
+});
+
+// Lock-screen, notification and headset controls for whatever is playing
+const mediaSession = 'mediaSession' in navigator ? navigator.mediaSession : null;
+
+const setActionHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+  try {
+    mediaSession?.setActionHandler(action, handler);
+  } catch {
+    // Browsers reject actions they don't support
+  }
+};
+
+const updatePositionState = () => {
+  const { track, mediaDuration, playbackRate } = usePlaybackStore.getState();
+  const duration = mediaDuration ?? track?.duration ?? 0;
+
+  try {
+    mediaSession?.setPositionState(
+      track && duration > 0
+        ? { duration, playbackRate, position: Math.min(audio.currentTime, duration) }
+        : undefined
+    );
+  } catch {
+    // Not supported, or the position briefly ran past a stale duration
+  }
+};
+
+if (mediaSession) {
+  const store = usePlaybackStore;
+  const SEEK_OFFSET_SEC = 10;
+
+  setActionHandler('play', () => {
+    const { isPlaying, isLoopGap } = store.getState();
+    if (!isPlaying && !isLoopGap) store.getState().toggle();
+  });
+  setActionHandler('pause', () => store.getState().pause());
+  setActionHandler('stop', () => store.getState().stop());
+  setActionHandler('seekbackward', (details) => store.getState().skip(-(details.seekOffset ?? SEEK_OFFSET_SEC)));
+  setActionHandler('seekforward', (details) => store.getState().skip(details.seekOffset ?? SEEK_OFFSET_SEC));
+  setActionHandler('seekto', (details) => {
+    if (details.seekTime !== undefined) store.getState().seek(details.seekTime);
+  });
+
+  audio.addEventListener('seeked', updatePositionState);
+
+  store.subscribe((state, previous) => {
+    if (state.track !== previous.track) {
+      const { track } = state;
+
+      mediaSession.metadata = track
+        ? new MediaMetadata({
+            title: `Voice message from ${track.senderName}`,
+            artist: track.conversationName ? `Conversation with ${track.conversationName}` : 'VoiceLink',
+            album: formatDate(track.createdAt),
+          })
+        : null;
+    }
+
+    // Only offer "next" when there is a message to go to
+    if (state.queue.length > 0 !== previous.queue.length > 0) {
+      setActionHandler('nexttrack', state.queue.length > 0 ? () => store.getState().next() : null);
+    }
+
+    if (state.isPlaying !== previous.isPlaying || state.track !== previous.track) {
+      mediaSession.playbackState = !state.track ? 'none' : state.isPlaying ? 'playing' : 'paused';
+    }
+
+    if (
+      state.track !== previous.track ||
+      state.mediaDuration !== previous.mediaDuration ||
+      state.playbackRate !== previous.playbackRate ||
+      state.isPlaying !== previous.isPlaying
+    ) {
+      updatePositionState();
+    }
+  });
+}
@@ -0,0 +1,209 @@
+import { create } from 'zustand';
+import type { Database } from '../lib/database.types';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from './authStore';
+
+export type MessageRead = Pick<Database['public']['Tables']['message_reads']['Row'], 'message_id' | 'user_id' | 'read_at'>;
+
+interface ReadState {
+  // Messages from others not yet read, by conversation id
+  unread: Record<string, number>;
+  conversationId: string | null;
+  // Everyone's reads in the watched conversation, by message id
+  byMessage: Record<string, MessageRead[]>;
+  // Whether `byMessage` has been fetched for the watched conversation
+  isLoaded: boolean;
+
+  start: () => () => void;
+  fetchUnread: () => Promise<void>;
+  watch: (conversationId: string) => () => void;
+  markRead: (message: { id: string; conversationId: string }) => Promise<void>;
+  reset: () => void;
+}
+
+export const getTotalUnread = (unread: Record<string, number>) =>
+  Object.values(unread).reduce((total, count) => total + count, 0);
+
+// Reads being saved, so a message seen and played at once is only sent once
+const pending = new Set<string>();
+
+// Several changes in a row (e.g. scrolling through a conversation) share one refetch
+const REFETCH_DELAY_MS = 500;
+let refetchTimer: number | null = null;
+
+export const useReadStore = create<ReadState>((set, get) => {
+  // The counts always come from the server, so missed events and reads made
+  // on other devices can't leave them wrong
+  const scheduleFetch = () => {
+    if (refetchTimer !== null) clearTimeout(refetchTimer);
+
+    refetchTimer = window.setTimeout(() => {
+      refetchTimer = null;
+      get().fetchUnread();
+    }, REFETCH_DELAY_MS);
+  };
+
+  const addLocal = (read: MessageRead & { conversation_id: string }) => {
+    if (read.conversation_id !== get().conversationId) return;
+
+    const current = get().byMessage[read.message_id] ?? [];
+    if (current.some(r => r.user_id === read.user_id)) return;
+
+    set({
+      byMessage: {
+        ...get().byMessage,
+        [read.message_id]: [...current, { message_id: read.message_id, user_id: read.user_id, read_at: read.read_at }],
+      },
+    });
+  };
+
+  return {
+    unread: {},
+    conversationId: null,
+    byMessage: {},
+    isLoaded: false,
+
+    // Keeps the unread counts current while the user is signed in
+    start: () => {
+      const userId = useAuthStore.getState().user?.id;
+      if (!userId) return () => {};
+
+      // Realtime only delivers messages this user may read, i.e. their own
+      // conversations
+      const subscription = supabase
+        .channel(`unread-${userId}`)
+        .on('postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'audio_messages' },
+            (payload) => {
+              if (payload.new.sender_id !== userId) scheduleFetch();
+            }
+        )
+        .on('postgres_changes',
+            {
+              event: 'INSERT',
+              schema: 'public',
+              table: 'message_reads',
+              filter: `user_id=eq.${userId}`
+            },
+            scheduleFetch
+        )
+        // Also on reconnecting, to catch up on whatever happened meanwhile
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') get().fetchUnread();
+        });
+
+      const handleVisible = () => {
+        if (document.visibilityState === 'visible') scheduleFetch();
+      };
+
+      window.addEventListener('online', scheduleFetch);
+      document.addEventListener('visibilitychange', handleVisible);
+
+      return () => {
+        subscription.unsubscribe();
+        window.removeEventListener('online', scheduleFetch);
+        document.removeEventListener('visibilitychange', handleVisible);
+
+        if (refetchTimer !== null) {
+          clearTimeout(refetchTimer);
+          refetchTimer = null;
+        }
+      };
+    },
+
+    fetchUnread: async () => {
+      try {
+        const { data, error } = await supabase.rpc('unread_message_counts');
+
+        if (error) throw error;
+
+        const rows = (data || []) as { conversation_id: string; unread_count: number }[];
+        set({ unread: Object.fromEntries(rows.map(row => [row.conversation_id, Number(row.unread_count)])) });
+      } catch (error) {
+        console.error('Error fetching unread counts:', error);
+      }
+    },
+
+    watch: (conversationId) => {
+      set({ conversationId, byMessage: {}, isLoaded: false });
+
+      const load = async () => {
+        try {
+          const { data, error } = await supabase
+            .from('message_reads')
+            .select('message_id, user_id, read_at, conversation_id')
+            .eq('conversation_id', conversationId);
+
+          if (error) throw error;
+          if (get().conversationId !== conversationId) return;
+
+          const byMessage: Record<string, MessageRead[]> = {};
+          for (const { message_id, user_id, read_at } of data || []) {
+            (byMessage[message_id] ??= []).push({ message_id, user_id, read_at });
+          }
+
+          set({ byMessage, isLoaded: true });
+        } catch (error) {
+          console.error('Error fetching read receipts:', error);
+        }
+      };
+
+      load();
+
+      const subscription = supabase
+        .channel(`reads-${conversationId}`)
+        .on('postgres_changes',
+            {
+              event: 'INSERT',
+              schema: 'public',
+              table: 'message_reads',
+              filter: `conversation_id=eq.${conversationId}`
+            },
+            (payload) => addLocal(payload.new as MessageRead & { conversation_id: string })
+        )
+        .subscribe();
+
+      return () => {
+        subscription.unsubscribe();
+
+        if (get().conversationId === conversationId) {
+          set({ conversationId: null, byMessage: {}, isLoaded: false });
+        }
+      };
+    },
+
+    markRead: async ({ id, conversationId }) => {
+      const userId = useAuthStore.getState().user?.id;
+      if (!userId || pending.has(id)) return;
+      if (get().byMessage[id]?.some(read => read.user_id === userId)) return;
+
+      pending.add(id);
+
+      try {
+        // Only rows actually inserted come back
+        const { data, error } = await supabase
+          .from('message_reads')
+          .upsert({ message_id: id, user_id: userId }, { onConflict: 'message_id,user_id', ignoreDuplicates: true })
+          .select('message_id, user_id, read_at, conversation_id');
+
+        if (error) throw error;
+
+        for (const read of data || []) {
+          addLocal(read);
+        }
+
+        if (data?.length && get().unread[conversationId]) {
+          scheduleFetch();
+        }
+      } catch (error) {
+        console.error('Error marking message as read:', error);
+      } finally {
+        pending.delete(id);
+      }
+    },
+
+    reset: () => {
+      set({ unread: {}, conversationId: null, byMessage: {}, isLoaded: false });
+    },
+  };
+});
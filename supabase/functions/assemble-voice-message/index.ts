@@ -0,0 +1,148 @@
+/*
+  Joins the chunks a client streamed to `voices/{conversation_id}/parts/{recording_id}/`
+  during recording into the final message file, creates the `audio_messages`
+  row and deletes the chunks.
+
+  Runs with the caller's JWT, so the existing storage and table policies decide
+  what they may read, write and delete. Safe to call again for the same
+  message id after a partial failure.
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Mirrors src/lib/recordingFormat.ts. WebM and Ogg are stored as recorded:
+// there is no encoder here to turn them into WAV the way the browser does for
+// single uploads, so they won't play in Safari before 15
+const EXTENSIONS: Record<string, string> = {
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/mpeg': 'mp3',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+};
+
+const UNIQUE_VIOLATION = '23505';
+
+interface AssembleRequest {
+  message_id: string;
+  conversation_id: string;
+  recording_id: string;
+  part_count: number;
+  mime_type: string;
+  duration: number;
+  waveform_peaks: number[] | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const partName = (index: number) => `${String(index).padStart(5, '0')}.part`;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return json({ error: 'Missing authorization' }, 401);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authorization } } }
+  );
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  let body: AssembleRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid request body' }, 400);
+  }
+
+  const baseMimeType = body.mime_type?.split(';')[0].trim().toLowerCase();
+  const extension = EXTENSIONS[baseMimeType];
+  if (!body.message_id || !body.conversation_id || !body.recording_id || !(body.part_count > 0) || !extension) {
+    return json({ error: 'Invalid request body' }, 400);
+  }
+
+  try {
+    const folder = `${body.conversation_id}/parts/${body.recording_id}`;
+    const partPaths = Array.from({ length: body.part_count }, (_, i) => `${folder}/${partName(i)}`);
+    const audioPath = `${body.conversation_id}/${body.message_id}.${extension}`;
+
+    // MediaRecorder timeslice chunks are consecutive pieces of one file, so
+    // concatenating them in order yields the complete recording
+    const parts: Uint8Array[] = [];
+    for (const path of partPaths) {
+      const { data, error } = await supabase.storage.from('voices').download(path);
+      if (error || !data) {
+        return json({ error: `Missing recording chunk ${path}` }, 409);
+      }
+      parts.push(new Uint8Array(await data.arrayBuffer()));
+    }
+
+    const audio = new Blob(parts, { type: body.mime_type });
+
+    // Checked again when the message row is inserted; this keeps an oversized
+    // file from being stored at all
+    const { data: policy, error: policyError } = await supabase
+      .rpc('current_recording_policy')
+      .maybeSingle();
+
+    if (policyError) throw policyError;
+
+    const maxBytes = Number((policy as { max_file_size_bytes?: number } | null)?.max_file_size_bytes);
+    if (maxBytes > 0 && audio.size > maxBytes) {
+      return json({ error: 'Recording is larger than your recording policy allows' }, 413);
+    }
+
+    const { error: uploadError } = await supabase.storage
+      .from('voices')
+      .upload(audioPath, audio, { contentType: body.mime_type });
+
+    if (uploadError && !uploadError.message.includes('already exists')) {
+      throw uploadError;
+    }
+
+    const { error: messageError } = await supabase
+      .from('audio_messages')
+      .insert({
+        id: body.message_id,
+        conversation_id: body.conversation_id,
+        sender_id: user.id,
+        audio_url: audioPath,
+        duration: body.duration,
+        mime_type: body.mime_type,
+        waveform_peaks: body.waveform_peaks,
+      });
+
+    if (messageError && messageError.code !== UNIQUE_VIOLATION) {
+      throw messageError;
+    }
+
+    const { error: removeError } = await supabase.storage.from('voices').remove(partPaths);
+    if (removeError) {
+      console.error('Error removing recording chunks:', removeError);
+    }
+
+    return json({ audio_url: audioPath });
+  } catch (error) {
+    console.error('Error assembling voice message:', error);
+    return json({ error: (error as { message?: string })?.message ?? 'Assembly failed' }, 500);
+  }
+});
@@ -0,0 +1,50 @@
+/*
+  Deletes streamed recording chunks under `voices/{conversation_id}/parts/`
+  that were abandoned, e.g. by a crash or a closed tab with no draft left to
+  restore them from. Meant to be run on a schedule with the service role key.
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Chunks untouched for this long are no longer part of a recording in progress
+const STALE_AFTER = '1 day';
+
+// Each round deletes up to 1000 chunks; the rest wait for the next run
+const MAX_ROUNDS = 20;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Not authorized' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  try {
+    let removed = 0;
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      const { data, error } = await supabase.rpc('stale_recording_parts', { older_than: STALE_AFTER });
+      if (error) throw error;
+
+      const paths = ((data || []) as { name: string }[]).map(row => row.name);
+      if (paths.length === 0) break;
+
+      const { error: removeError } = await supabase.storage.from('voices').remove(paths);
+      if (removeError) throw removeError;
+
+      removed += paths.length;
+    }
+
+    return json({ removed });
+  } catch (error) {
+    console.error('Error sweeping recording chunks:', error);
+    return json({ error: (error as { message?: string })?.message ?? 'Sweep failed' }, 500);
+  }
+});
@@ -0,0 +1,14 @@
+/*
+  # Store the real audio format of voice messages
+
+  1. Changes
+    - Add `mime_type` column to `audio_messages`
+    - Recordings are now uploaded with the container/codec the browser actually
+      produced (e.g. `audio/mp4`, `audio/wav`) instead of always `audio/mp3`
+
+  2. Notes
+    - Existing rows keep `mime_type` NULL because their true format is unknown
+*/
+
+ALTER TABLE audio_messages
+  ADD COLUMN IF NOT EXISTS mime_type TEXT;
@@ -0,0 +1,13 @@
+/*
+  # Add per-user settings to profiles
+
+  1. Changes
+    - Add `settings` JSONB column to `profiles` for user preferences
+      (e.g. `audio_cleanup` to process recordings before upload)
+
+  2. Security
+    - Covered by the existing "Users can update their own profile" policy
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS settings JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,16 @@
+/*
+  # Store waveform peaks with voice messages
+
+  1. Changes
+    - Add `waveform_peaks` JSONB column to `audio_messages`
+    - Holds a short array of normalized peak amplitudes (0–1) computed in the
+      browser when the message is sent, so players can draw the waveform
+      without downloading the audio
+
+  2. Notes
+    - Existing rows keep `waveform_peaks` NULL and fall back to a plain
+      progress bar
+*/
+
+ALTER TABLE audio_messages
+  ADD COLUMN IF NOT EXISTS waveform_peaks JSONB;
@@ -0,0 +1,23 @@
+/*
+  # Allow cleanup of streamed recording chunks
+
+  1. Changes
+    - Long recordings are uploaded in chunks while recording, under
+      `voices/{conversation_id}/parts/{recording_id}/`
+    - Once the chunks are assembled into the final message file (or the
+      recording is discarded) they are deleted by the user who uploaded them
+
+  2. Security
+    - Add DELETE policy on `storage.objects` limited to the uploader's own
+      objects inside a conversation's `parts/` folder; finished voice
+      messages still cannot be deleted
+*/
+
+CREATE POLICY "Uploaders can delete their own recording chunks"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'voices'
+    AND (storage.foldername(name))[2] = 'parts'
+    AND is_conversation_member((storage.foldername(name))[1]::uuid)
+    AND auth.uid() = owner
+  );
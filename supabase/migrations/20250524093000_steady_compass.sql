@@ -0,0 +1,164 @@
+/*
+  # Recording policies per role and per training director's team
+
+  1. New Tables
+    - `recording_policies`
+      - `role` the policy applies to
+      - `director_id` (nullable) — the training director whose team it applies
+        to; NULL rows are the organization-wide default for the role
+      - min/max message length, max file size, whether text messages are
+        allowed, and business hours outside which sending can be blocked
+
+  2. Functions
+    - `team_director_id(user_id)` — a director's own id, otherwise the
+      director of the user (or of their mentor)
+    - `current_recording_policy()` — the calling user's effective policy:
+      their team's row for their role, falling back to the default row
+    - `message_satisfies_recording_policy(audio_url, duration)` — used by the
+      insert policy on `audio_messages`; also checks the size of the uploaded
+      audio file
+
+  3. Changes
+    - `audio_messages.audio_url` becomes nullable; text-only messages have no
+      audio and were previously rejected by the NOT NULL constraint
+    - The `voices` bucket gets a 50 MB `file_size_limit`, the most any
+      recording policy may allow
+
+  4. Security
+    - Enable RLS on `recording_policies`; signed-in users can read policies,
+      training directors can manage the rows for their own team
+    - Restrictive INSERT policy on `audio_messages` enforcing the sender's
+      policy (length limits, file size, text messages, business hours)
+
+  5. Notes
+    - Durations are measured in the browser, so the server allows a small
+      tolerance around the limits
+    - Storage fills in an object's size only after its row is inserted, so a
+      storage policy can't check it; the size is checked when the message
+      pointing at the file is created instead
+*/
+
+CREATE TABLE IF NOT EXISTS recording_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  role TEXT NOT NULL CHECK (role IN ('client', 'mentor', 'training_director')),
+  director_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  min_duration_sec NUMERIC NOT NULL DEFAULT 1 CHECK (min_duration_sec >= 0),
+  max_duration_sec NUMERIC NOT NULL DEFAULT 900 CHECK (max_duration_sec > 0),
+  -- Capped by the bucket's file_size_limit
+  max_file_size_bytes BIGINT NOT NULL DEFAULT 52428800 CHECK (max_file_size_bytes > 0 AND max_file_size_bytes <= 52428800),
+  allow_text_messages BOOLEAN NOT NULL DEFAULT true,
+  allow_outside_business_hours BOOLEAN NOT NULL DEFAULT true,
+  business_hours_start TIME NOT NULL DEFAULT '08:00',
+  business_hours_end TIME NOT NULL DEFAULT '18:00',
+  -- ISO weekdays, 1 = Monday … 7 = Sunday
+  business_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  CHECK (min_duration_sec <= max_duration_sec)
+);
+
+-- One row per role for the organization default, and per role per team
+CREATE UNIQUE INDEX IF NOT EXISTS recording_policies_default_idx
+  ON recording_policies (role) WHERE director_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS recording_policies_team_idx
+  ON recording_policies (role, director_id) WHERE director_id IS NOT NULL;
+
+ALTER TABLE recording_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read recording policies"
+  ON recording_policies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Training directors can manage their team's recording policies"
+  ON recording_policies FOR ALL
+  TO authenticated
+  USING (director_id = auth.uid())
+  WITH CHECK (
+    director_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'training_director'
+    )
+  );
+
+-- Organization defaults, matching the previous hardcoded 15-minute cap
+INSERT INTO recording_policies (role)
+VALUES ('client'), ('mentor'), ('training_director')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION team_director_id(p_user_id UUID)
+RETURNS UUID LANGUAGE SQL STABLE SECURITY DEFINER AS $$
+  SELECT CASE
+    WHEN p.role = 'training_director' THEN p.id
+    ELSE COALESCE(p.director_id, mentor.director_id)
+  END
+  FROM profiles p
+  LEFT JOIN profiles mentor ON mentor.id = p.mentor_id
+  WHERE p.id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION current_recording_policy()
+RETURNS SETOF recording_policies LANGUAGE SQL STABLE SECURITY DEFINER AS $$
+  SELECT rp.*
+  FROM recording_policies rp
+  JOIN profiles p ON p.id = auth.uid()
+  WHERE rp.role = p.role
+  AND (rp.director_id IS NULL OR rp.director_id = team_director_id(p.id))
+  -- Team rows win over the organization default
+  ORDER BY rp.director_id IS NULL
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION message_satisfies_recording_policy(msg_audio_url TEXT, msg_duration NUMERIC)
+RETURNS BOOLEAN LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  policy recording_policies;
+  local_now TIMESTAMP;
+  file_size BIGINT;
+BEGIN
+  SELECT * INTO policy FROM current_recording_policy();
+  IF policy.id IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  IF NOT policy.allow_outside_business_hours THEN
+    local_now := now() AT TIME ZONE policy.timezone;
+    IF NOT (
+      EXTRACT(ISODOW FROM local_now)::SMALLINT = ANY (policy.business_days)
+      AND local_now::TIME >= policy.business_hours_start
+      AND local_now::TIME < policy.business_hours_end
+    ) THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  IF msg_audio_url IS NULL THEN
+    RETURN policy.allow_text_messages;
+  END IF;
+
+  SELECT (metadata->>'size')::BIGINT INTO file_size
+  FROM storage.objects
+  WHERE bucket_id = 'voices'
+  AND name = msg_audio_url;
+
+  IF file_size > policy.max_file_size_bytes THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN msg_duration >= policy.min_duration_sec - 0.5
+    AND msg_duration <= policy.max_duration_sec + 1;
+END;
+$$;
+
+UPDATE storage.buckets
+SET file_size_limit = 52428800
+WHERE id = 'voices';
+
+ALTER TABLE audio_messages
+  ALTER COLUMN audio_url DROP NOT NULL;
+
+CREATE POLICY "Messages must satisfy the sender's recording policy"
+  ON audio_messages AS RESTRICTIVE FOR INSERT
+  WITH CHECK (message_satisfies_recording_policy(audio_url, duration));
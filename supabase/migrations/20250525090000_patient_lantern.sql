@@ -0,0 +1,40 @@
+/*
+  # Per-user listening positions
+
+  1. New Tables
+    - `playback_positions`, keyed like `favorites`
+      - `user_id`, `message_id`
+      - `position_sec` — where the user stopped listening
+      - `updated_at`
+
+  2. Security
+    - Enable RLS on `playback_positions`
+    - Users can manage only their own rows, and only for messages in
+      conversations they belong to
+
+  3. Notes
+    - Rows are removed once a message has been listened to the end, so a row
+      means the message has only been partly heard
+*/
+
+CREATE TABLE IF NOT EXISTS playback_positions (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES audio_messages(id) ON DELETE CASCADE,
+  position_sec NUMERIC NOT NULL CHECK (position_sec >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+ALTER TABLE playback_positions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own playback positions"
+  ON playback_positions FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM audio_messages m
+      WHERE m.id = message_id
+      AND is_conversation_member(m.conversation_id)
+    )
+  );
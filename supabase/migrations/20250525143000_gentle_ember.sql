@@ -0,0 +1,24 @@
+/*
+  # Bookmark notes and colors
+
+  1. Changes
+    - `bookmarks.note` (nullable) — a longer note alongside the label
+    - `bookmarks.color` — the bookmark's color, which doubles as its category
+      (highlight, action item, question, concern, follow-up)
+
+  2. Indexes
+    - `bookmarks (user_id, created_at)` for the "My bookmarks" view, which
+      lists every bookmark of the user across conversations
+
+  3. Notes
+    - Existing bookmarks become highlights (amber)
+    - The existing "Users can manage their own bookmarks" policy already
+      covers updating label, note and color
+*/
+
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS note TEXT;
+
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS color TEXT NOT NULL DEFAULT 'amber'
+  CHECK (color IN ('amber', 'green', 'blue', 'red', 'purple'));
+
+CREATE INDEX IF NOT EXISTS bookmarks_user_created_idx ON bookmarks (user_id, created_at DESC);
@@ -0,0 +1,93 @@
+/*
+  # Shared comments on a segment of a voice message
+
+  1. New Tables
+    - `message_comments`
+      - `message_id` — the voice message being discussed
+      - `conversation_id` — copied from the message so members can be checked
+        and realtime can be filtered per conversation
+      - `author_id`
+      - `parent_id` — set on replies; null on the comment that starts a thread
+      - `start_sec`, `end_sec` — the part of the recording a thread is about
+      - `body`
+
+  2. Security
+    - Enable RLS on `message_comments`
+    - Conversation members can read all comments in the conversation
+    - Members can comment as themselves
+    - Authors can edit and delete their own comments
+
+  3. Notes
+    - Only the first comment of a thread carries a time range; replies inherit
+      it from their parent
+    - `conversation_id` is filled in by a trigger so it always matches the message
+    - Added to `supabase_realtime` so open conversations see new comments
+*/
+
+CREATE TABLE IF NOT EXISTS message_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  message_id UUID NOT NULL REFERENCES audio_messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES message_comments(id) ON DELETE CASCADE,
+  start_sec NUMERIC,
+  end_sec NUMERIC,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  CHECK (
+    (parent_id IS NULL AND start_sec >= 0 AND end_sec >= start_sec)
+    OR (parent_id IS NOT NULL AND start_sec IS NULL AND end_sec IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS message_comments_conversation_idx
+  ON message_comments (conversation_id, created_at);
+
+CREATE INDEX IF NOT EXISTS message_comments_message_idx
+  ON message_comments (message_id);
+
+-- Take the conversation from the message rather than trusting the client
+CREATE OR REPLACE FUNCTION set_message_comment_conversation()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM audio_messages
+  WHERE id = NEW.message_id;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_message_comment_conversation
+  BEFORE INSERT OR UPDATE ON message_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_message_comment_conversation();
+
+ALTER TABLE message_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view comments in their conversations"
+  ON message_comments FOR SELECT
+  USING (is_conversation_member(conversation_id));
+
+CREATE POLICY "Members can comment in their conversations"
+  ON message_comments FOR INSERT
+  WITH CHECK (
+    author_id = auth.uid()
+    AND is_conversation_member(conversation_id)
+  );
+
+CREATE POLICY "Authors can edit their own comments"
+  ON message_comments FOR UPDATE
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Authors can delete their own comments"
+  ON message_comments FOR DELETE
+  USING (author_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE message_comments;
@@ -0,0 +1,40 @@
+/*
+  # Forwarded clips
+
+  1. Changes
+    - `audio_messages` gains a reference to the message a clip was cut from
+      - `source_message_id` — the original voice message
+      - `source_start_sec`, `source_end_sec` — the part of it that was clipped
+
+  2. Security
+    - Clips may only be cut from messages the sender can read; the existing
+      insert policy already limits the destination to the sender's own
+      conversations
+
+  3. Notes
+    - The reference is cleared if the original is deleted, so the clip stays
+      playable on its own
+*/
+
+ALTER TABLE audio_messages
+  ADD COLUMN IF NOT EXISTS source_message_id UUID REFERENCES audio_messages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS source_start_sec NUMERIC,
+  ADD COLUMN IF NOT EXISTS source_end_sec NUMERIC;
+
+ALTER TABLE audio_messages
+  ADD CONSTRAINT audio_messages_source_range_check
+  CHECK (
+    (source_start_sec IS NULL AND source_end_sec IS NULL)
+    OR (source_start_sec >= 0 AND source_end_sec > source_start_sec)
+  );
+
+CREATE POLICY "Clips must come from messages the sender can read"
+  ON audio_messages AS RESTRICTIVE FOR INSERT
+  WITH CHECK (
+    source_message_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM audio_messages source
+      WHERE source.id = source_message_id
+      AND is_conversation_member(source.conversation_id)
+    )
+  );
@@ -0,0 +1,98 @@
+/*
+  # Read receipts and unread counts
+
+  1. New Tables
+    - `message_reads` — one row per user per message they have seen
+      - `message_id`, `user_id`
+      - `conversation_id` — copied from the message so members can be checked
+        and realtime can be filtered per conversation
+      - `read_at`
+
+  2. Changes
+    - `conversation_participants.last_read_at` — everything sent before it
+      counts as read for that participant. Set to the time of this migration
+      for existing participants, so history from before read tracking isn't
+      reported as unread
+
+  3. Functions
+    - `unread_message_counts()` — for each of the calling user's
+      conversations, how many messages from others they haven't read
+
+  4. Security
+    - Enable RLS on `message_reads`
+    - Conversation members can see who has read what, so senders get receipts
+    - Members can only record their own reads; reads are never changed or
+      removed
+
+  5. Notes
+    - `conversation_id` is filled in by a trigger so it always matches the message
+    - Added to `supabase_realtime` so open conversations see receipts arrive
+*/
+
+CREATE TABLE IF NOT EXISTS message_reads (
+  message_id UUID NOT NULL REFERENCES audio_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS message_reads_conversation_idx
+  ON message_reads (conversation_id);
+
+ALTER TABLE conversation_participants
+  ADD COLUMN IF NOT EXISTS last_read_at TIMESTAMPTZ;
+
+UPDATE conversation_participants
+SET last_read_at = now()
+WHERE last_read_at IS NULL;
+
+-- Take the conversation from the message rather than trusting the client
+CREATE OR REPLACE FUNCTION set_message_read_conversation()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM audio_messages
+  WHERE id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_message_read_conversation
+  BEFORE INSERT ON message_reads
+  FOR EACH ROW
+  EXECUTE FUNCTION set_message_read_conversation();
+
+ALTER TABLE message_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reads in their conversations"
+  ON message_reads FOR SELECT
+  USING (is_conversation_member(conversation_id));
+
+CREATE POLICY "Members can mark messages as read"
+  ON message_reads FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND is_conversation_member(conversation_id)
+  );
+
+CREATE OR REPLACE FUNCTION unread_message_counts()
+RETURNS TABLE (conversation_id UUID, unread_count BIGINT)
+LANGUAGE SQL STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT m.conversation_id, count(*)
+  FROM audio_messages m
+  JOIN conversation_participants cp
+    ON cp.conversation_id = m.conversation_id
+    AND cp.user_id = auth.uid()
+  WHERE m.sender_id <> auth.uid()
+  AND m.created_at > COALESCE(cp.last_read_at, '-infinity')
+  AND NOT EXISTS (
+    SELECT 1 FROM message_reads r
+    WHERE r.message_id = m.id
+    AND r.user_id = auth.uid()
+  )
+  GROUP BY m.conversation_id;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reads;
@@ -0,0 +1,36 @@
+/*
+  # Latest message per conversation
+
+  1. Functions
+    - `latest_conversation_messages()` — the newest message of each of the
+      calling user's conversations, for the conversation list
+
+  2. Indexes
+    - `audio_messages (conversation_id, created_at DESC)` so the newest
+      message of a conversation is found without scanning its history
+
+  3. Notes
+    - Runs with the caller's rights, so the usual RLS on `audio_messages`
+      still applies
+*/
+
+CREATE INDEX IF NOT EXISTS audio_messages_conversation_created_idx
+  ON audio_messages (conversation_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION latest_conversation_messages()
+RETURNS TABLE (
+  id UUID,
+  conversation_id UUID,
+  created_at TIMESTAMPTZ,
+  sender_id UUID,
+  audio_url TEXT,
+  text_transcript TEXT
+) LANGUAGE SQL STABLE AS $$
+  SELECT DISTINCT ON (m.conversation_id)
+    m.id, m.conversation_id, m.created_at, m.sender_id, m.audio_url, m.text_transcript
+  FROM audio_messages m
+  JOIN conversation_participants cp
+    ON cp.conversation_id = m.conversation_id
+    AND cp.user_id = auth.uid()
+  ORDER BY m.conversation_id, m.created_at DESC;
+$$;
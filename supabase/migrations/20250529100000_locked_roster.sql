@@ -0,0 +1,56 @@
+/*
+  # Lock the profile columns that access rules depend on
+
+  1. Functions
+    - `protect_profile_assignments()` — stops users from changing their own
+      `role`, `mentor_id` or `director_id`, and, when their profile is
+      created, from making themselves a training director or attaching
+      themselves to a mentor or director
+
+  2. Security
+    - Recording policies (`team_director_id`, `current_recording_policy`) and
+      the insert policies built on them trust these columns; without this a
+      user could make themselves a training director, or leave their team,
+      through "Users can update their own profile"
+
+  3. Notes
+    - Only the service role and the SQL editor are exempt; that is where
+      training directors are created and assignments are made
+    - Users can keep editing their name, avatar and settings
+*/
+
+CREATE OR REPLACE FUNCTION protect_profile_assignments()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS NULL OR auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role = 'training_director' THEN
+      RAISE EXCEPTION 'Training directors can only be added by an administrator'
+        USING ERRCODE = '42501';
+    END IF;
+
+    NEW.mentor_id := NULL;
+    NEW.director_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.mentor_id IS DISTINCT FROM OLD.mentor_id
+    OR NEW.director_id IS DISTINCT FROM OLD.director_id
+  THEN
+    RAISE EXCEPTION 'Role, mentor and director can only be changed by an administrator'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_assignments ON profiles;
+CREATE TRIGGER protect_profile_assignments
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_assignments();
@@ -0,0 +1,50 @@
+/*
+  # Private and swept recording chunks
+
+  1. Functions
+    - `stale_recording_parts(older_than)` — paths of streamed recording chunks
+      whose folder hasn't been written to for `older_than`, at most 1000 at a
+      time; used by the `sweep-recording-parts` edge function
+
+  2. Security
+    - Restrictive SELECT policy on `storage.objects`: chunks under a
+      conversation's `parts/` folder can only be read by the user who uploaded
+      them; finished voice messages are unaffected
+    - `stale_recording_parts` can only be called with the service role
+
+  3. Notes
+    - Chunks are normally deleted once assembled or discarded, and a restored
+      draft picks up its own; a crash or closed tab without a draft to come
+      back to leaves them behind
+    - Schedule `sweep-recording-parts` (e.g. hourly) to delete those. A draft
+      restored after its chunks were swept simply uploads them again
+*/
+
+CREATE POLICY "Only uploaders can read their recording chunks"
+  ON storage.objects AS RESTRICTIVE FOR SELECT
+  USING (
+    bucket_id <> 'voices'
+    OR (storage.foldername(name))[2] IS DISTINCT FROM 'parts'
+    OR auth.uid() = owner
+  );
+
+CREATE OR REPLACE FUNCTION stale_recording_parts(older_than INTERVAL DEFAULT INTERVAL '1 day')
+RETURNS TABLE (name TEXT)
+LANGUAGE SQL STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'voices'
+  AND (storage.foldername(o.name))[2] = 'parts'
+  -- A folder still being uploaded to is kept whole
+  AND NOT EXISTS (
+    SELECT 1 FROM storage.objects recent
+    WHERE recent.bucket_id = 'voices'
+    AND storage.foldername(recent.name) = storage.foldername(o.name)
+    AND recent.created_at > now() - older_than
+  )
+  ORDER BY o.name
+  LIMIT 1000;
+$$;
+
+REVOKE EXECUTE ON FUNCTION stale_recording_parts(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION stale_recording_parts(INTERVAL) TO service_role;